@@ -1,4 +1,18 @@
 import AddLiquidityCard from "@/features/add/AddLiquidityCard";
-export default function AddPage() {
-  return <AddLiquidityCard />;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+export default function AddPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  // /add?tokenId=123 adds to an existing position
+  const tokenId =
+    typeof searchParams?.tokenId === "string" &&
+    /^\d+$/.test(searchParams.tokenId)
+      ? BigInt(searchParams.tokenId)
+      : undefined;
+
+  return <AddLiquidityCard tokenId={tokenId} />;
 }
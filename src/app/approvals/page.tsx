@@ -0,0 +1,6 @@
+// src/app/approvals/page.tsx
+import ApprovalsCard from "@/features/approvals/ApprovalsCard";
+
+export default function ApprovalsPage() {
+  return <ApprovalsCard />;
+}
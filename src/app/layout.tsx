@@ -9,12 +9,15 @@ import NetworkGuard from "@/components/NetworkGuard";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { useTokens } from "@/state/useTokens";
+import { useTokenLists } from "@/state/useTokenLists";
 
 function InitTokens() {
   const setChain = useTokens((s) => s.setChain);
+  const initLists = useTokenLists((s) => s.init);
   useEffect(() => {
     setChain(hemi.id);
-  }, [setChain]);
+    initLists();
+  }, [setChain, initLists]);
   return null;
 }
 
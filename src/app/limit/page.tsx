@@ -0,0 +1,6 @@
+// src/app/limit/page.tsx
+import LimitOrderCard from "@/features/limit/LimitOrderCard";
+
+export default function LimitPage() {
+  return <LimitOrderCard />;
+}
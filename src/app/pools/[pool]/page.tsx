@@ -8,6 +8,7 @@ import { decodeEventLog, formatUnits } from "viem";
 import { useAccount, useBalance, usePublicClient } from "wagmi";
 
 import { useTokens } from "@/state/useTokens";
+import { useSettings } from "@/state/useSettings";
 import { getPoolState } from "@/lib/univ3/pools";
 import { PoolChart } from "@/components/PoolChart";
 
@@ -958,7 +959,10 @@ function MiniSwapCard({
 }) {
   const [dir, setDir] = useState<"0to1" | "1to0">("0to1");
   const [amountIn, setAmountIn] = useState<string>("");
-  const [slippagePct, setSlippagePct] = useState<string>("0.5");
+  const defaultSlippageBps = useSettings((s) => s.slippageBps);
+  const [slippagePct, setSlippagePct] = useState<string>(
+    String(defaultSlippageBps / 100)
+  );
 
   const { address: userAddress } = useAccount();
 
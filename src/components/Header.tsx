@@ -3,6 +3,7 @@ import Link from "next/link";
 import ConnectButton from "@/components/ConnectButton";
 import { usePathname } from "next/navigation";
 import NetworkSwitcher from "@/components/NetworkSwitcher";
+import SettingsPopover from "@/components/SettingsPopover";
 //import { ConnectButton } from '@rainbow-me/rainbowkit' // optional if added
 
 function NavLink({ href, label }: { href: string; label: string }) {
@@ -33,13 +34,16 @@ export default function Header() {
 
         <nav className="flex items-center gap-2 text-sm">
           <NavLink href="/" label="Swap" />
+          <NavLink href="/limit" label="Limit" />
           <NavLink href="/pools" label="Pools" />
           <NavLink href="/add" label="Add" />
           <NavLink href="/remove" label="Remove" />
           <NavLink href="/positions" label="Positions" />
+          <NavLink href="/approvals" label="Approvals" />
         </nav>
         <div className="flex items-center gap-3">
           <NetworkSwitcher />
+          <SettingsPopover />
           <ConnectButton />
         </div>
       </div>
@@ -1,5 +1,335 @@
-export default function PriceRange() {
+// src/components/PriceRange.tsx
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import type { LiquidityDepth } from "@/lib/univ3/liquidityDepth";
+import { liquidityAtTick } from "@/lib/univ3/liquidityDepth";
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const AXIS = 18; // room for the price labels under the bars
+const BARS = 80;
+
+type Props = {
+  depth: LiquidityDepth | null;
+  currentTick: number;
+  tickSpacing: number;
+  tickLower: number | null;
+  tickUpper: number | null;
+  onChange: (tickLower: number, tickUpper: number) => void;
+  // displayed price (already inverted when `inverted`) at a tick
+  priceAtTick: (tick: number) => number;
+  unit: string;
+  inverted: boolean;
+  onInvert: () => void;
+  disabled?: boolean;
+};
+
+function formatPrice(p: number) {
+  if (!Number.isFinite(p)) return "—";
+  const abs = Math.abs(p);
+  if (abs !== 0 && (abs >= 1e9 || abs < 1e-6)) return p.toExponential(3);
+  return p.toLocaleString(undefined, { maximumSignificantDigits: 5 });
+}
+
+/**
+ * Liquidity-depth histogram around the current price with draggable min/max
+ * handles. Ticks snap to `tickSpacing`; the x axis runs in displayed price
+ * order, so it flips with the price direction.
+ */
+export default function PriceRange({
+  depth,
+  currentTick,
+  tickSpacing,
+  tickLower,
+  tickUpper,
+  onChange,
+  priceAtTick,
+  unit,
+  inverted,
+  onInvert,
+  disabled = false,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<"lower" | "upper" | null>(null);
+  // Half the visible window, in ticks
+  const defaultSpan = useMemo(() => {
+    if (tickLower != null && tickUpper != null) {
+      const widest = Math.max(
+        Math.abs(tickUpper - currentTick),
+        Math.abs(currentTick - tickLower)
+      );
+      return Math.min(
+        Math.max(widest * 1.5, 20 * tickSpacing),
+        500 * tickSpacing
+      );
+    }
+    return 200 * tickSpacing;
+    // only when the pool changes, not on every drag
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTick, tickSpacing]);
+  const [zoom, setZoom] = useState(1);
+
+  const span = Math.min(
+    Math.max(defaultSpan * zoom, 10 * tickSpacing),
+    MAX_TICK
+  );
+  const viewLo = Math.max(currentTick - span, MIN_TICK);
+  const viewHi = Math.min(currentTick + span, MAX_TICK);
+
+  // Higher ticks mean a lower displayed price when the pair is shown as
+  // token0 per token1; keep prices ascending left to right
+  const descending = priceAtTick(currentTick + 1) < priceAtTick(currentTick);
+
+  const xOf = (tick: number) => {
+    const f = (tick - viewLo) / (viewHi - viewLo);
+    return (descending ? 1 - f : f) * WIDTH;
+  };
+  const tickOf = (x: number) => {
+    const f = Math.min(Math.max(x / WIDTH, 0), 1);
+    return viewLo + (descending ? 1 - f : f) * (viewHi - viewLo);
+  };
+  const snap = (tick: number) =>
+    Math.min(
+      Math.max(
+        Math.round(tick / tickSpacing) * tickSpacing,
+        Math.ceil(MIN_TICK / tickSpacing) * tickSpacing
+      ),
+      Math.floor(MAX_TICK / tickSpacing) * tickSpacing
+    );
+
+  const bars = useMemo(() => {
+    if (!depth) return [];
+    const step = (viewHi - viewLo) / BARS;
+    // null: outside the loaded tick words, so unknown rather than empty
+    const values = Array.from({ length: BARS }, (_, i) => {
+      const mid = Math.floor(viewLo + (i + 0.5) * step);
+      return liquidityAtTick(depth, mid);
+    });
+    const max = values.reduce<bigint>(
+      (m, v) => (v !== null && v > m ? v : m),
+      0n
+    );
+    return values.map((v, i) => ({
+      from: viewLo + i * step,
+      to: viewLo + (i + 1) * step,
+      known: v !== null,
+      height: v !== null && max > 0n ? Number((v * 1000n) / max) / 1000 : 0,
+    }));
+  }, [depth, viewLo, viewHi]);
+
+  function svgX(e: React.PointerEvent) {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * WIDTH;
+  }
+
+  function moveHandle(which: "lower" | "upper", x: number) {
+    if (tickLower == null || tickUpper == null) return;
+    const tick = snap(tickOf(x));
+    if (which === "lower") {
+      onChange(Math.min(tick, tickUpper - tickSpacing), tickUpper);
+    } else {
+      onChange(tickLower, Math.max(tick, tickLower + tickSpacing));
+    }
+  }
+
+  // Grab whichever handle is closer to the pointer
+  function onPointerDown(e: React.PointerEvent) {
+    if (disabled || tickLower == null || tickUpper == null) return;
+    const x = svgX(e);
+    const which =
+      Math.abs(x - xOf(tickLower)) <= Math.abs(x - xOf(tickUpper))
+        ? "lower"
+        : "upper";
+    svgRef.current!.setPointerCapture(e.pointerId);
+    setDragging(which);
+    moveHandle(which, x);
+  }
+
+  function onPointerMove(e: React.PointerEvent) {
+    if (!dragging) return;
+    moveHandle(dragging, svgX(e));
+  }
+
+  function onPointerUp(e: React.PointerEvent) {
+    if (!dragging) return;
+    svgRef.current!.releasePointerCapture(e.pointerId);
+    setDragging(null);
+  }
+
+  const chartH = HEIGHT - AXIS;
+  const inRange = (t: number) =>
+    tickLower != null && tickUpper != null && t >= tickLower && t < tickUpper;
+  const clampX = (x: number) => Math.min(Math.max(x, 0), WIDTH);
+  const bandLeft =
+    tickLower != null && tickUpper != null
+      ? clampX(Math.min(xOf(tickLower), xOf(tickUpper)))
+      : null;
+  const bandRight =
+    tickLower != null && tickUpper != null
+      ? clampX(Math.max(xOf(tickLower), xOf(tickUpper)))
+      : null;
+
   return (
-    <div className="text-sm opacity-70">[price range slider placeholder]</div>
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[11px] opacity-70">
+        <span>Liquidity by price ({unit})</span>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700"
+            onClick={() => setZoom((z) => z / 2)}
+            aria-label="Zoom in"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700"
+            onClick={() => setZoom((z) => z * 2)}
+            aria-label="Zoom out"
+          >
+            −
+          </button>
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700"
+            onClick={() => setZoom(1)}
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700"
+            onClick={onInvert}
+            title="Flip price quote"
+            aria-label="Flip price quote"
+          >
+            ↔{inverted ? " (inverted)" : ""}
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full h-40 select-none touch-none ${
+          disabled ? "" : "cursor-ew-resize"
+        }`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        {bandLeft != null && bandRight != null && (
+          <rect
+            x={bandLeft}
+            y={0}
+            width={Math.max(bandRight - bandLeft, 1)}
+            height={chartH}
+            className="fill-orange-500/10"
+          />
+        )}
+
+        {bars.map((b, i) => {
+          const x1 = xOf(b.from);
+          const x2 = xOf(b.to);
+          if (!b.known) {
+            return (
+              <rect
+                key={i}
+                x={Math.min(x1, x2)}
+                y={0}
+                width={Math.max(Math.abs(x2 - x1) - 0.5, 0.5)}
+                height={chartH}
+                className="fill-neutral-700/20"
+              />
+            );
+          }
+          const h = b.height * (chartH - 4);
+          return (
+            <rect
+              key={i}
+              x={Math.min(x1, x2)}
+              y={chartH - h}
+              width={Math.max(Math.abs(x2 - x1) - 0.5, 0.5)}
+              height={h}
+              className={
+                inRange((b.from + b.to) / 2)
+                  ? "fill-orange-400/70"
+                  : "fill-neutral-600"
+              }
+            />
+          );
+        })}
+
+        <line
+          x1={xOf(currentTick)}
+          x2={xOf(currentTick)}
+          y1={0}
+          y2={chartH}
+          className="stroke-neutral-200"
+          strokeDasharray="3 3"
+        />
+
+        {(["lower", "upper"] as const).map((which) => {
+          const tick = which === "lower" ? tickLower : tickUpper;
+          if (tick == null || tick < viewLo || tick > viewHi) return null;
+          const x = xOf(tick);
+          return (
+            <g key={which}>
+              <line
+                x1={x}
+                x2={x}
+                y1={0}
+                y2={chartH}
+                className="stroke-orange-400"
+                strokeWidth={2}
+              />
+              <rect
+                x={x - 4}
+                y={chartH / 2 - 12}
+                width={8}
+                height={24}
+                rx={2}
+                className="fill-orange-400"
+              />
+            </g>
+          );
+        })}
+
+        <text x={2} y={HEIGHT - 4} className="fill-neutral-400 text-[10px]">
+          {formatPrice(priceAtTick(descending ? viewHi : viewLo))}
+        </text>
+        <text
+          x={WIDTH / 2}
+          y={HEIGHT - 4}
+          textAnchor="middle"
+          className="fill-neutral-300 text-[10px]"
+        >
+          {formatPrice(priceAtTick(currentTick))}
+        </text>
+        <text
+          x={WIDTH - 2}
+          y={HEIGHT - 4}
+          textAnchor="end"
+          className="fill-neutral-400 text-[10px]"
+        >
+          {formatPrice(priceAtTick(descending ? viewLo : viewHi))}
+        </text>
+      </svg>
+
+      {!depth && (
+        <div className="text-[11px] opacity-60">No liquidity data yet.</div>
+      )}
+      {depth && bars.some((b) => !b.known) && (
+        <div className="text-[11px] opacity-60">
+          Shaded areas are outside the loaded tick data (liquidity unknown).
+        </div>
+      )}
+    </div>
   );
 }
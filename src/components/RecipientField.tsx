@@ -0,0 +1,137 @@
+// src/components/RecipientField.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Address } from "viem";
+import { getAddress, isAddress, zeroAddress } from "viem";
+import { usePublicClient } from "wagmi";
+
+export type ParsedRecipient = {
+  // checksummed; null while the input is empty or invalid
+  address: Address | null;
+  error: string | null;
+};
+
+/**
+ * Validates a typed recipient. Mixed-case input must match its EIP-55
+ * checksum; all-lowercase input carries no checksum and is accepted as is.
+ */
+export function parseRecipient(input: string): ParsedRecipient {
+  const value = input.trim();
+  if (!value) return { address: null, error: null };
+  if (!isAddress(value, { strict: false })) {
+    return { address: null, error: "Not a valid address" };
+  }
+  if (!isAddress(value, { strict: true })) {
+    return {
+      address: null,
+      error: "Checksum mismatch: the address has a typo or was altered",
+    };
+  }
+  const address = getAddress(value);
+  if (address === zeroAddress) {
+    return {
+      address: null,
+      error: "Tokens sent to the zero address are burned",
+    };
+  }
+  return { address, error: null };
+}
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+  // connected wallet; sending to it needs no confirmation
+  self?: Address;
+  symbolOut?: string;
+};
+
+export default function RecipientField({
+  value,
+  onChange,
+  confirmed,
+  onConfirmedChange,
+  self,
+  symbolOut,
+}: Props) {
+  const client = usePublicClient();
+  const { address, error } = parseRecipient(value);
+  const isSelf =
+    !!address && !!self && address.toLowerCase() === self.toLowerCase();
+
+  // What's at the address on this chain: a contract, or an account never used
+  const [onChain, setOnChain] = useState<{
+    isContract: boolean;
+    unused: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setOnChain(null);
+    if (!client || !address || isSelf) return;
+
+    (async () => {
+      try {
+        const [code, nonce] = await Promise.all([
+          client.getCode({ address }),
+          client.getTransactionCount({ address }),
+        ]);
+        if (!active) return;
+        const isContract = !!code && code !== "0x";
+        setOnChain({ isContract, unused: !isContract && nonce === 0 });
+      } catch (e) {
+        console.warn("[RecipientField] lookup failed", address, e);
+      }
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [client, address, isSelf]);
+
+  return (
+    <div className="space-y-1 bg-neutral-800 rounded-xl p-3">
+      <div className="text-xs opacity-70">Recipient</div>
+      <input
+        className="w-full bg-neutral-900 p-2 rounded-lg font-mono text-xs"
+        placeholder="0x… (receives the output)"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        autoComplete="off"
+      />
+
+      {error && <div className="text-[11px] text-red-400">{error}</div>}
+
+      {onChain?.isContract && (
+        <div className="text-[11px] text-amber-400">
+          This is a contract. Make sure it can receive and move{" "}
+          {symbolOut ?? "the output token"}, or the funds may be stuck.
+        </div>
+      )}
+      {onChain?.unused && (
+        <div className="text-[11px] text-amber-400">
+          No code and no transactions at this address on this network. If it is
+          a smart-contract wallet (e.g. a Safe) deployed on another chain, it
+          does not exist here and the funds would be unreachable.
+        </div>
+      )}
+
+      {address && !isSelf && (
+        <label className="flex items-center gap-2 text-[11px]">
+          <input
+            type="checkbox"
+            checked={confirmed}
+            onChange={(e) => onConfirmedChange(e.target.checked)}
+          />
+          <span>
+            I&apos;ve checked the address. Tokens sent to the wrong address
+            can&apos;t be recovered.
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+// src/components/SettingsPopover.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { isAddress } from "viem";
+import { FEE_TIERS } from "@/hooks/useAutoFeeTier";
+import { useSettings, MAX_DEADLINE_MIN } from "@/state/useSettings";
+import { useTokens } from "@/state/useTokens";
+import SlippageControl from "@/components/SlippageControl";
+
+function Toggle({
+  on,
+  onChange,
+  label,
+  hint,
+}: {
+  on: boolean;
+  onChange: (on: boolean) => void;
+  label: string;
+  hint?: string;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div>
+        <div className="text-sm">{label}</div>
+        {hint && <div className="text-[11px] opacity-60">{hint}</div>}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(!on)}
+        className={`rounded px-2 py-0.5 text-xs ${
+          on ? "bg-green-700" : "bg-neutral-700"
+        }`}
+      >
+        {on ? "On" : "Off"}
+      </button>
+    </div>
+  );
+}
+
+export default function SettingsPopover() {
+  const settings = useSettings();
+  const { byAddr } = useTokens();
+  const [open, setOpen] = useState(false);
+  const [hideInput, setHideInput] = useState("");
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, [open]);
+
+  function onHide() {
+    const addr = hideInput.trim();
+    if (!isAddress(addr)) return;
+    settings.hideToken(addr);
+    setHideInput("");
+  }
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="px-2 py-1 rounded-xl text-neutral-300 hover:text-white hover:bg-neutral-800"
+        aria-label="Settings"
+        title="Settings"
+      >
+        ⚙
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-96 rounded-2xl bg-neutral-900 border border-neutral-800 p-4 shadow-lg space-y-4">
+          <div className="text-sm font-semibold">Settings</div>
+
+          <div className="space-y-1">
+            <div className="text-xs opacity-70">Default slippage</div>
+            <SlippageControl
+              value={settings.slippageBps}
+              onChange={(bps) => settings.set({ slippageBps: bps })}
+              auto={settings.slippageAuto}
+              onAutoChange={(on) => settings.set({ slippageAuto: on })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm">Transaction deadline</div>
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                className="w-20 bg-neutral-800 p-1.5 rounded text-right"
+                value={settings.deadlineMin}
+                onChange={(e) =>
+                  settings.set({ deadlineMin: Number(e.target.value || 0) })
+                }
+                aria-label="Transaction deadline (minutes)"
+                title={`1–${MAX_DEADLINE_MIN} minutes`}
+              />
+              <span className="opacity-70">min</span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm">Approvals</div>
+              <div className="text-[11px] opacity-60">
+                Exact approves only what each transaction needs
+              </div>
+            </div>
+            <div className="flex gap-1 text-xs">
+              {(["infinite", "exact"] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => settings.set({ approvalAmount: m })}
+                  className={`rounded px-2 py-1 ${
+                    settings.approvalAmount === m
+                      ? "bg-neutral-700"
+                      : "bg-neutral-800 hover:bg-neutral-700"
+                  }`}
+                >
+                  {m === "infinite" ? "Infinite" : "Exact"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm">Permit2 approval</div>
+            <div className="flex gap-1 text-xs">
+              {(["signature", "onchain"] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => settings.set({ permit2Mode: m })}
+                  className={`rounded px-2 py-1 ${
+                    settings.permit2Mode === m
+                      ? "bg-neutral-700"
+                      : "bg-neutral-800 hover:bg-neutral-700"
+                  }`}
+                >
+                  {m === "signature" ? "Signature" : "On-chain tx"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Toggle
+            label="Expert mode"
+            hint="Skip the typed confirmation on high price-impact swaps"
+            on={settings.expertMode}
+            onChange={(on) => settings.set({ expertMode: on })}
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-sm">Default fee tier</div>
+              <div className="flex gap-1 text-xs">
+                {FEE_TIERS.map((f) => (
+                  <button
+                    key={f}
+                    type="button"
+                    onClick={() => settings.set({ defaultFeeTier: f })}
+                    className={`rounded px-2 py-1 ${
+                      settings.defaultFeeTier === f
+                        ? "bg-neutral-700"
+                        : "bg-neutral-800 hover:bg-neutral-700"
+                    }`}
+                  >
+                    {(f / 10000).toFixed(2)}%
+                  </button>
+                ))}
+              </div>
+            </div>
+            <Toggle
+              label="Remember last fee tier"
+              hint="Picking a tier on Add / Limit makes it the default"
+              on={settings.rememberFeeTier}
+              onChange={(on) => settings.set({ rememberFeeTier: on })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm">Hidden in swap</div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {settings.hiddenTokens.map((a) => (
+                <div
+                  key={a}
+                  className="flex items-center justify-between text-xs"
+                >
+                  <span>
+                    {byAddr.get(a)?.symbol ?? "Unknown"}{" "}
+                    <span className="opacity-50 font-mono">
+                      {a.slice(0, 6)}…{a.slice(-4)}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    className="underline opacity-70 hover:opacity-100"
+                    onClick={() => settings.unhideToken(a)}
+                  >
+                    Show
+                  </button>
+                </div>
+              ))}
+              {!settings.hiddenTokens.length && (
+                <div className="text-xs opacity-60">No hidden tokens</div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <input
+                className="flex-1 bg-neutral-800 p-1.5 rounded text-xs"
+                placeholder="Token address to hide"
+                value={hideInput}
+                onChange={(e) => setHideInput(e.target.value)}
+              />
+              <button
+                type="button"
+                disabled={!isAddress(hideInput.trim())}
+                onClick={onHide}
+                className="rounded bg-neutral-800 hover:bg-neutral-700 px-2 text-xs disabled:opacity-50"
+              >
+                Hide
+              </button>
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={settings.reset}
+            className="text-xs underline opacity-70 hover:opacity-100"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
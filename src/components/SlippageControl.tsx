@@ -1,35 +1,80 @@
 "use client";
-type Props = { value: number; onChange: (bps: number) => void };
+type Props = {
+  value: number;
+  onChange: (bps: number) => void;
+  // Auto mode is offered when `onAutoChange` is passed
+  auto?: boolean;
+  onAutoChange?: (auto: boolean) => void;
+  // recommended value and why, shown while auto is on
+  autoBps?: number | null;
+  autoReasons?: string[];
+};
 
-export default function SlippageControl({ value, onChange }: Props) {
-  const pct = (value / 100).toFixed(2);
+export default function SlippageControl({
+  value,
+  onChange,
+  auto = false,
+  onAutoChange,
+  autoBps,
+  autoReasons,
+}: Props) {
+  const shown = auto && autoBps != null ? autoBps : value;
+  const pct = (shown / 100).toFixed(2);
 
   return (
-    <div className="flex items-center gap-3 text-sm">
-      <span className="opacity-70">Slippage</span>
-      <input
-        className="w-24 bg-neutral-800 p-2 rounded"
-        value={value}
-        onChange={(e) => {
-          const n = Number(e.target.value || 0);
-          const clamped = Math.max(0, Math.min(5000, Math.floor(n))); // 0–50%
-          onChange(clamped);
-        }}
-        aria-label="Slippage (bps)"
-        title="Slippage (basis points)"
-      />
-      <span className="opacity-70">bps ({pct}%)</span>
-      <div className="flex gap-1">
-        {[25, 50, 100].map((b) => (
-          <button
-            key={b}
-            className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
-            onClick={() => onChange(b)}
-          >
-            {(b / 100).toFixed(2)}%
-          </button>
-        ))}
+    <div className="space-y-1">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="opacity-70">Slippage</span>
+        <input
+          className="w-24 bg-neutral-800 p-2 rounded disabled:opacity-60"
+          value={shown}
+          disabled={auto}
+          onChange={(e) => {
+            const n = Number(e.target.value || 0);
+            const clamped = Math.max(0, Math.min(5000, Math.floor(n))); // 0–50%
+            onChange(clamped);
+          }}
+          aria-label="Slippage (bps)"
+          title="Slippage (basis points)"
+        />
+        <span className="opacity-70">bps ({pct}%)</span>
+        <div className="flex gap-1">
+          {onAutoChange && (
+            <button
+              type="button"
+              className={`px-2 py-1 rounded ${
+                auto ? "bg-neutral-600" : "bg-neutral-800 hover:bg-neutral-700"
+              }`}
+              onClick={() => onAutoChange(!auto)}
+            >
+              Auto
+            </button>
+          )}
+          {[25, 50, 100].map((b) => (
+            <button
+              key={b}
+              type="button"
+              className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+              onClick={() => {
+                onAutoChange?.(false);
+                onChange(b);
+              }}
+            >
+              {(b / 100).toFixed(2)}%
+            </button>
+          ))}
+        </div>
       </div>
+      {auto && autoReasons && autoReasons.length > 0 && (
+        <div className="text-[11px] opacity-60">
+          Auto: {autoReasons.join(" · ")}
+        </div>
+      )}
+      {auto && autoBps == null && onAutoChange && autoReasons && (
+        <div className="text-[11px] opacity-60">
+          Auto: waiting for a route — using {(value / 100).toFixed(2)}%
+        </div>
+      )}
     </div>
   );
 }
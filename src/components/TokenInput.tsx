@@ -3,9 +3,11 @@
 
 import { useEffect, useMemo, useState } from "react";
 import type { Address } from "viem";
-import { formatUnits } from "viem";
+import { formatUnits, isAddress } from "viem";
 import { useAccount, usePublicClient } from "wagmi";
 import { useTokens } from "@/state/useTokens";
+import TokenListManager from "@/components/TokenListManager";
+import { fetchTokenMetadata, isNativeToken, type Token } from "@/lib/tokens";
 
 type Props = {
   label: string;
@@ -15,6 +17,9 @@ type Props = {
   // Optional filters for token selector (used e.g. on Swap to hide canonical tokens)
   excludeAddrs?: Address[];
   excludeSymbols?: string[]; // case-insensitive
+
+  // Offer the native ETH pseudo-token at the top of the list (Swap only)
+  includeNative?: boolean;
 };
 
 const erc20BalanceAbi = [
@@ -33,16 +38,33 @@ export default function TokenInput({
   onChange,
   excludeAddrs,
   excludeSymbols,
+  includeNative = false,
 }: Props) {
-  const { tokens, byAddr } = useTokens();
+  const {
+    tokens: listTokens,
+    byAddr,
+    native,
+    chainId,
+    importToken,
+  } = useTokens();
+  const tokens = useMemo(
+    () => (includeNative && native ? [native, ...listTokens] : listTokens),
+    [includeNative, native, listTokens]
+  );
   const { address } = useAccount();
   const publicClient = usePublicClient();
 
   const [open, setOpen] = useState(false);
   const [search, setSearch] = useState("");
+  const [managingLists, setManagingLists] = useState(false);
   const [balances, setBalances] = useState<Map<string, bigint>>(new Map());
   const [loadingBalances, setLoadingBalances] = useState(false);
 
+  // pasted address that isn't a known token
+  const [importCandidate, setImportCandidate] = useState<Token | null>(null);
+  const [importErr, setImportErr] = useState<string | null>(null);
+  const [importLoading, setImportLoading] = useState(false);
+
   const selected = value ? byAddr.get(value.toLowerCase()) : undefined;
 
   const tokensForModal = useMemo(() => {
@@ -71,12 +93,14 @@ export default function TokenInput({
           tokensForModal.map(async (t) => {
             const addr = t.address as Address;
             try {
-              const bal = (await publicClient.readContract({
-                address: addr,
-                abi: erc20BalanceAbi,
-                functionName: "balanceOf",
-                args: [address as Address],
-              })) as bigint;
+              const bal = isNativeToken(addr)
+                ? await publicClient.getBalance({ address: address as Address })
+                : ((await publicClient.readContract({
+                    address: addr,
+                    abi: erc20BalanceAbi,
+                    functionName: "balanceOf",
+                    args: [address as Address],
+                  })) as bigint);
               return [t.address.toLowerCase(), bal];
             } catch {
               return [t.address.toLowerCase(), 0n];
@@ -94,6 +118,31 @@ export default function TokenInput({
     };
   }, [open, address, publicClient, tokensForModal]);
 
+  // ---- look up a pasted address that isn't in the store ----
+  useEffect(() => {
+    let active = true;
+    const q = search.trim();
+    setImportCandidate(null);
+    setImportErr(null);
+    if (!open || !publicClient || chainId === null) return;
+    if (!isAddress(q) || byAddr.has(q.toLowerCase())) return;
+
+    setImportLoading(true);
+    fetchTokenMetadata(publicClient, chainId, q)
+      .then((t) => {
+        if (active) setImportCandidate(t);
+      })
+      .catch((e: any) => {
+        if (active) setImportErr(e?.shortMessage ?? e?.message ?? String(e));
+      })
+      .finally(() => {
+        if (active) setImportLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [open, search, publicClient, chainId, byAddr]);
+
   // ---- filter + sort tokens for the list ----
   const filteredTokens = useMemo(() => {
     const q = search.trim().toLowerCase();
@@ -126,6 +175,12 @@ export default function TokenInput({
     setOpen(false);
   }
 
+  function handleImport(t: Token) {
+    importToken(t);
+    setSearch("");
+    handleSelect(t.address);
+  }
+
   function displayBalance(addr: string, decimals: number) {
     const bal = balances.get(addr.toLowerCase());
     if (bal == null) return "";
@@ -157,12 +212,23 @@ export default function TokenInput({
                   />
                 )}
                 <div className="flex flex-col">
-                  <span className="text-sm font-medium">{selected.symbol}</span>
+                  <span className="text-sm font-medium">
+                    {selected.symbol}
+                    {selected.imported && (
+                      <span className="ml-2 text-[10px] text-amber-400">
+                        Unverified
+                      </span>
+                    )}
+                  </span>
                   <span className="text-xs opacity-70">{selected.name}</span>
                 </div>
               </div>
               <span className="text-xs opacity-60">
-                {selected.address.slice(0, 6)}…{selected.address.slice(-4)}
+                {isNativeToken(selected.address)
+                  ? "Native"
+                  : `${selected.address.slice(0, 6)}…${selected.address.slice(
+                      -4
+                    )}`}
               </span>
             </>
           ) : (
@@ -176,7 +242,9 @@ export default function TokenInput({
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
           <div className="w-full max-w-md rounded-2xl bg-neutral-900 p-4 shadow-lg">
             <div className="flex items-center justify-between mb-3">
-              <div className="text-lg font-semibold">Select a token</div>
+              <div className="text-lg font-semibold">
+                {managingLists ? "Token lists" : "Select a token"}
+              </div>
               <button
                 onClick={() => setOpen(false)}
                 className="text-sm opacity-70 hover:opacity-100"
@@ -185,69 +253,141 @@ export default function TokenInput({
               </button>
             </div>
 
-            <input
-              className="w-full mb-3 bg-neutral-800 p-2 rounded text-sm"
-              placeholder="Search name or paste address"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-            />
+            {managingLists ? (
+              <TokenListManager />
+            ) : (
+              <>
+                <input
+                  className="w-full mb-3 bg-neutral-800 p-2 rounded text-sm"
+                  placeholder="Search name or paste address"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
 
-            {loadingBalances && (
-              <div className="text-xs opacity-60 mb-2">Loading balances…</div>
-            )}
+                {loadingBalances && (
+                  <div className="text-xs opacity-60 mb-2">
+                    Loading balances…
+                  </div>
+                )}
 
-            <div className="max-h-80 overflow-y-auto space-y-1">
-              {filteredTokens.map((t) => {
-                const balDisplay = displayBalance(t.address, t.decimals ?? 18);
-                const hasBalance = balDisplay !== "" && balDisplay !== "0";
-                return (
-                  <button
-                    key={t.address}
-                    type="button"
-                    onClick={() => handleSelect(t.address)}
-                    className="w-full flex items-center justify-between px-2 py-2 rounded hover:bg-neutral-800 text-left"
-                  >
-                    <div className="flex items-center gap-2">
-                      {t.logoURI && (
-                        // eslint-disable-next-line @next/next/no-img-element
-                        <img
-                          src={t.logoURI}
-                          alt={t.symbol}
-                          className="w-6 h-6 rounded-full"
-                        />
-                      )}
+                {importLoading && (
+                  <div className="text-xs opacity-60 mb-2">
+                    Looking up token…
+                  </div>
+                )}
+                {importErr && (
+                  <div className="text-xs text-red-400 mb-2">{importErr}</div>
+                )}
+                {importCandidate && (
+                  <div className="mb-3 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 space-y-2">
+                    <div className="flex items-center justify-between">
                       <div className="flex flex-col">
-                        <span className="text-sm font-medium">{t.symbol}</span>
-                        <span className="text-xs opacity-70">{t.name}</span>
+                        <span className="text-sm font-medium">
+                          {importCandidate.symbol}
+                        </span>
+                        <span className="text-xs opacity-70">
+                          {importCandidate.name} · {importCandidate.decimals}{" "}
+                          decimals
+                        </span>
                       </div>
+                      <span className="text-[10px] opacity-60 font-mono">
+                        {importCandidate.address.slice(0, 6)}…
+                        {importCandidate.address.slice(-4)}
+                      </span>
                     </div>
-                    <div className="text-right">
-                      {balDisplay !== "" && (
-                        <div
-                          className={`text-xs ${
-                            hasBalance ? "opacity-100" : "opacity-50"
-                          }`}
-                        >
-                          {balDisplay} {t.symbol}
-                        </div>
-                      )}
-                      <div className="text-[10px] opacity-40 font-mono">
-                        {t.address.slice(0, 6)}…{t.address.slice(-4)}
-                      </div>
+                    <div className="text-xs text-amber-300">
+                      Unverified token: it is not on the token list. Anyone can
+                      deploy a token with any name or symbol, including copies
+                      of real ones. Make sure this is the address you meant.
                     </div>
-                  </button>
-                );
-              })}
+                    <button
+                      type="button"
+                      onClick={() => handleImport(importCandidate)}
+                      className="w-full rounded bg-amber-600 hover:bg-amber-500 py-1.5 text-sm font-medium"
+                    >
+                      Import {importCandidate.symbol}
+                    </button>
+                  </div>
+                )}
 
-              {!filteredTokens.length && (
-                <div className="text-xs opacity-60 py-4 text-center">
-                  No tokens found
+                <div className="max-h-80 overflow-y-auto space-y-1">
+                  {filteredTokens.map((t) => {
+                    const balDisplay = displayBalance(
+                      t.address,
+                      t.decimals ?? 18
+                    );
+                    const hasBalance = balDisplay !== "" && balDisplay !== "0";
+                    return (
+                      <button
+                        key={t.address}
+                        type="button"
+                        onClick={() => handleSelect(t.address)}
+                        className="w-full flex items-center justify-between px-2 py-2 rounded hover:bg-neutral-800 text-left"
+                      >
+                        <div className="flex items-center gap-2">
+                          {t.logoURI && (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img
+                              src={t.logoURI}
+                              alt={t.symbol}
+                              className="w-6 h-6 rounded-full"
+                            />
+                          )}
+                          <div className="flex flex-col">
+                            <span className="text-sm font-medium">
+                              {t.symbol}
+                              {t.imported && (
+                                <span className="ml-2 text-[10px] text-amber-400">
+                                  Unverified
+                                </span>
+                              )}
+                            </span>
+                            <span className="text-xs opacity-70">{t.name}</span>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          {balDisplay !== "" && (
+                            <div
+                              className={`text-xs ${
+                                hasBalance ? "opacity-100" : "opacity-50"
+                              }`}
+                            >
+                              {balDisplay} {t.symbol}
+                            </div>
+                          )}
+                          <div className="text-[10px] opacity-40 font-mono">
+                            {isNativeToken(t.address)
+                              ? "Native"
+                              : `${t.address.slice(0, 6)}…${t.address.slice(
+                                  -4
+                                )}`}
+                          </div>
+                        </div>
+                      </button>
+                    );
+                  })}
+
+                  {!filteredTokens.length &&
+                    !importCandidate &&
+                    !importLoading && (
+                      <div className="text-xs opacity-60 py-4 text-center">
+                        No tokens found
+                      </div>
+                    )}
                 </div>
-              )}
-            </div>
+              </>
+            )}
+
+            <button
+              type="button"
+              onClick={() => setManagingLists((v) => !v)}
+              className="mt-3 w-full text-xs opacity-70 hover:opacity-100 underline"
+            >
+              {managingLists ? "Back to tokens" : "Manage token lists"}
+            </button>
           </div>
         </div>
       )}
     </>
   );
-}
\ No newline at end of file
+}
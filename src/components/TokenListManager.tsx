@@ -0,0 +1,281 @@
+// src/components/TokenListManager.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTokenLists } from "@/state/useTokenLists";
+import { useTokens } from "@/state/useTokens";
+import {
+  BUNDLED_LIST_ID,
+  diffTokenLists,
+  versionLabel,
+  type ListSubscription,
+} from "@/lib/tokenLists";
+
+const DIFF_PREVIEW = 8;
+
+function shortAddr(a: string) {
+  return `${a.slice(0, 6)}…${a.slice(-4)}`;
+}
+
+function sourceLabel(s: ListSubscription) {
+  if (s.source.type === "bundled") return "Bundled with the app";
+  if (s.source.type === "url") return s.source.url;
+  return "Pasted JSON";
+}
+
+function PendingDiff({ sub }: { sub: ListSubscription }) {
+  const { acceptUpdate, dismissUpdate } = useTokenLists();
+  const diff = useMemo(
+    () =>
+      sub.list && sub.pending ? diffTokenLists(sub.list, sub.pending) : null,
+    [sub.list, sub.pending]
+  );
+  if (!sub.list || !sub.pending || !diff) return null;
+
+  const empty =
+    !diff.added.length && !diff.removed.length && !diff.changed.length;
+
+  return (
+    <div className="mt-2 rounded border border-sky-500/40 bg-sky-500/10 p-2 text-xs space-y-1">
+      <div className="font-medium">
+        Update {versionLabel(sub.list.version)} →{" "}
+        {versionLabel(sub.pending.version)}
+      </div>
+      {empty && <div className="opacity-70">No token changes.</div>}
+      {diff.added.length > 0 && (
+        <div className="text-green-400">
+          + {diff.added.length} added:{" "}
+          {diff.added
+            .slice(0, DIFF_PREVIEW)
+            .map((t) => t.symbol)
+            .join(", ")}
+          {diff.added.length > DIFF_PREVIEW && "…"}
+        </div>
+      )}
+      {diff.removed.length > 0 && (
+        <div className="text-red-400">
+          − {diff.removed.length} removed:{" "}
+          {diff.removed
+            .slice(0, DIFF_PREVIEW)
+            .map((t) => t.symbol)
+            .join(", ")}
+          {diff.removed.length > DIFF_PREVIEW && "…"}
+        </div>
+      )}
+      {diff.changed.length > 0 && (
+        <div className="text-amber-300">
+          ~ {diff.changed.length} changed:{" "}
+          {diff.changed
+            .slice(0, DIFF_PREVIEW)
+            .map((c) => `${c.token.symbol} (${c.fields.join(", ")})`)
+            .join("; ")}
+          {diff.changed.length > DIFF_PREVIEW && "…"}
+        </div>
+      )}
+      <div className="flex gap-2 pt-1">
+        <button
+          type="button"
+          onClick={() => acceptUpdate(sub.id)}
+          className="rounded bg-sky-600 hover:bg-sky-500 px-2 py-1"
+        >
+          Accept update
+        </button>
+        <button
+          type="button"
+          onClick={() => dismissUpdate(sub.id)}
+          className="rounded bg-neutral-800 hover:bg-neutral-700 px-2 py-1"
+        >
+          Not now
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function TokenListManager() {
+  const { subscriptions, addUrl, addJson, remove, toggle, move, refresh } =
+    useTokenLists();
+  const { conflicts, symbolClashes } = useTokens();
+
+  const [url, setUrl] = useState("");
+  const [json, setJson] = useState("");
+  const [showJson, setShowJson] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function onAddUrl() {
+    setErr(null);
+    setBusy(true);
+    try {
+      await addUrl(url);
+      setUrl("");
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onAddJson() {
+    setErr(null);
+    try {
+      addJson(json);
+      setJson("");
+      setShowJson(false);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          className="flex-1 bg-neutral-800 p-2 rounded text-sm"
+          placeholder="https://… token list URL"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <button
+          type="button"
+          disabled={busy || !url.trim()}
+          onClick={onAddUrl}
+          className="rounded bg-neutral-800 hover:bg-neutral-700 px-3 text-sm disabled:opacity-50"
+        >
+          {busy ? "Adding…" : "Add"}
+        </button>
+      </div>
+
+      <button
+        type="button"
+        className="text-xs underline opacity-70"
+        onClick={() => setShowJson((v) => !v)}
+      >
+        {showJson ? "Hide" : "Paste list JSON instead"}
+      </button>
+      {showJson && (
+        <div className="space-y-2">
+          <textarea
+            className="w-full h-28 bg-neutral-800 p-2 rounded text-xs font-mono"
+            placeholder='{"name": "…", "timestamp": "…", "version": {…}, "tokens": […]}'
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+          />
+          <button
+            type="button"
+            disabled={!json.trim()}
+            onClick={onAddJson}
+            className="rounded bg-neutral-800 hover:bg-neutral-700 px-3 py-1 text-sm disabled:opacity-50"
+          >
+            Add list
+          </button>
+        </div>
+      )}
+
+      {err && (
+        <div className="text-xs text-red-400 whitespace-pre-wrap">{err}</div>
+      )}
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {subscriptions.map((s, i) => (
+          <div key={s.id} className="rounded-lg bg-neutral-800 p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {s.list?.name ?? "Unavailable list"}
+                  {s.list && (
+                    <span className="ml-2 text-xs opacity-60">
+                      v{versionLabel(s.list.version)} · {s.list.tokens.length}{" "}
+                      tokens
+                    </span>
+                  )}
+                </div>
+                <div className="text-[10px] opacity-50 truncate">
+                  {sourceLabel(s)}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 text-xs shrink-0">
+                <button
+                  type="button"
+                  disabled={i === 0}
+                  onClick={() => move(s.id, -1)}
+                  className="px-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+                  title="Higher precedence"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  disabled={i === subscriptions.length - 1}
+                  onClick={() => move(s.id, 1)}
+                  className="px-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+                  title="Lower precedence"
+                >
+                  ↓
+                </button>
+                {s.source.type === "url" && (
+                  <button
+                    type="button"
+                    onClick={() => refresh(s.id)}
+                    className="px-1 opacity-70 hover:opacity-100"
+                    title="Check for updates"
+                  >
+                    ⟳
+                  </button>
+                )}
+                {s.id !== BUNDLED_LIST_ID && (
+                  <button
+                    type="button"
+                    onClick={() => remove(s.id)}
+                    className="px-1 opacity-70 hover:opacity-100"
+                    title="Remove list"
+                  >
+                    ✕
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => toggle(s.id)}
+                  className={`ml-1 rounded px-2 py-0.5 ${
+                    s.enabled ? "bg-green-700" : "bg-neutral-700"
+                  }`}
+                >
+                  {s.enabled ? "On" : "Off"}
+                </button>
+              </div>
+            </div>
+            {s.error && (
+              <div className="mt-1 text-xs text-red-400">{s.error}</div>
+            )}
+            <PendingDiff sub={s} />
+          </div>
+        ))}
+      </div>
+
+      {(conflicts.length > 0 || symbolClashes.length > 0) && (
+        <div className="rounded border border-amber-500/40 bg-amber-500/10 p-2 text-xs space-y-1">
+          <div className="font-medium text-amber-300">List conflicts</div>
+          {conflicts.map((c) => (
+            <div key={c.address}>
+              {shortAddr(c.address)}: using {c.kept.symbol} ({c.kept.decimals}{" "}
+              dec) from {c.kept.listName}; ignored{" "}
+              {c.others
+                .map(
+                  (o) => `${o.symbol} (${o.decimals} dec) from ${o.listName}`
+                )
+                .join(", ")}
+            </div>
+          ))}
+          {symbolClashes.map((c) => (
+            <div key={c.symbol}>
+              {c.symbol} is listed at different addresses:{" "}
+              {c.entries
+                .map((e) => `${shortAddr(e.address)} (${e.listName})`)
+                .join(", ")}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import type { Address } from "viem";
-import { parseUnits, formatUnits } from "viem";
+import { parseUnits, formatUnits, encodeFunctionData } from "viem";
 import {
   useAccount,
   usePublicClient,
@@ -11,10 +11,55 @@ import {
 } from "wagmi";
 
 import TokenInput from "@/components/TokenInput";
+import PriceRange from "@/components/PriceRange";
 import SlippageControl from "@/components/SlippageControl";
 import { useTokens } from "@/state/useTokens";
+import { useSettings, txDeadline } from "@/state/useSettings";
 import { UNI_V3_ADDRESSES } from "@/lib/addresses";
-import { getPoolState, getPoolAddress } from "@/lib/univ3/pools";
+import {
+  getPoolState,
+  getPoolAddress,
+  getSqrtPriceX96,
+  getFeeTickSpacing,
+} from "@/lib/univ3/pools";
+import {
+  mintAmountsWithSlippage,
+  pairedAmount,
+  fetchPosition,
+  type RawPosition,
+} from "@/lib/univ3/position";
+import { encodeSqrtRatioX96 } from "@/lib/math/price";
+import {
+  loadLiquidityDepth,
+  type LiquidityDepth,
+} from "@/lib/univ3/liquidityDepth";
+import {
+  getTickAtSqrtRatio,
+  MIN_SQRT_RATIO,
+  MAX_SQRT_RATIO,
+} from "@/lib/math/tickMath";
+import { txErrorMessage } from "@/lib/univ3/errors";
+import { loadZapPlan, type ZapPlan } from "@/lib/univ3/zap";
+import {
+  permit2Abi,
+  readPermit2Allowance,
+  isPermit2AllowanceValid,
+  MAX_UINT160,
+  PERMIT_EXPIRATION_SECONDS,
+} from "@/lib/univ3/permit2";
+import {
+  universalRouterAbi,
+  buildSwapExecuteArgs,
+} from "@/lib/univ3/universalRouter";
+import { summarizeSwapReceipt } from "@/lib/univ3/receipt";
+import {
+  supportsAtomicBatch,
+  markBatchUnsupported,
+  isBatchUnsupported,
+  sendBatch,
+  waitForBatch,
+  type BatchCall,
+} from "@/lib/viem/batchCalls";
 
 const erc20Abi = [
   {
@@ -40,6 +85,44 @@ const erc20Abi = [
 ] as const;
 
 const nfpmAbi = [
+  {
+    type: "function",
+    name: "ownerOf",
+    stateMutability: "view",
+    inputs: [{ name: "tokenId", type: "uint256" }],
+    outputs: [{ name: "owner", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "increaseLiquidity",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenId", type: "uint256" },
+          { name: "amount0Desired", type: "uint256" },
+          { name: "amount1Desired", type: "uint256" },
+          { name: "amount0Min", type: "uint256" },
+          { name: "amount1Min", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+    ],
+    outputs: [
+      { name: "liquidity", type: "uint128" },
+      { name: "amount0", type: "uint256" },
+      { name: "amount1", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "multicall",
+    stateMutability: "payable",
+    inputs: [{ name: "data", type: "bytes[]" }],
+    outputs: [{ name: "results", type: "bytes[]" }],
+  },
   {
     type: "function",
     name: "createAndInitializePoolIfNecessary",
@@ -84,31 +167,53 @@ const nfpmAbi = [
   },
 ] as const;
 
-export default function AddLiquidityCard() {
+type AddLiquidityCardProps = {
+  // "Add more" to this position: its pair, fee and range are locked
+  tokenId?: bigint;
+};
+
+export default function AddLiquidityCard({
+  tokenId,
+}: AddLiquidityCardProps = {}) {
   const { address } = useAccount();
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
   const { tokens, byAddr } = useTokens();
+  const {
+    slippageBps: defaultSlippageBps,
+    deadlineMin,
+    approvalAmount,
+    defaultFeeTier,
+    rememberFeeTier,
+    set: setSettings,
+  } = useSettings();
 
   // form state
   const [tokenA, setTokenA] = useState<Address | undefined>();
   const [tokenB, setTokenB] = useState<Address | undefined>();
 
-  // 0.30% default (matches OKU WETH/USDC.e pool on Hemi)
-  const [fee, setFee] = useState(3000);
+  // Settings default is 0.30% (matches OKU WETH/USDC.e pool on Hemi); it is
+  // followed until a tier is picked here (or taken from the position)
+  const [feeOverride, setFee] = useState<number | null>(null);
+  const fee = feeOverride ?? defaultFeeTier;
 
   const [amountA, setAmountA] = useState("0.1");
   const [amountB, setAmountB] = useState("100");
 
-  const [slippageBps, setSlippageBps] = useState(
-    Number(process.env.NEXT_PUBLIC_DEFAULT_SLIPPAGE_BPS ?? 50)
-  );
+  const [slippageOverride, setSlippageBps] = useState<number | null>(null);
+  const slippageBps = slippageOverride ?? defaultSlippageBps;
 
   const [poolAddress, setPoolAddress] = useState<Address | null>(null);
   const [tickLower, setTickLower] = useState<number | null>(null);
   const [tickUpper, setTickUpper] = useState<number | null>(null);
   const [tickSpacing, setTickSpacing] = useState<number | null>(null);
   const [currentTick, setCurrentTick] = useState<number | null>(null);
+  const [sqrtPriceX96, setSqrtPriceX96] = useState<bigint | null>(null);
+  // No pool for this pair / fee yet, or one that was created without a price
+  const [newPool, setNewPool] = useState<"missing" | "uninitialized" | null>(
+    null
+  );
+  const [startPriceInput, setStartPriceInput] = useState(""); // tokenB per tokenA
   const [rangePreset, setRangePreset] = useState<"full" | "50" | "20" | "10">(
     "full"
   );
@@ -126,9 +231,61 @@ export default function AddLiquidityCard() {
   const [txHash, setTxHash] = useState<string | null>(null);
   const [txErr, setTxErr] = useState<string | null>(null);
   const [txPending, setTxPending] = useState(false);
+  const [position, setPosition] = useState<RawPosition | null>(null);
+  const [depth, setDepth] = useState<LiquidityDepth | null>(null);
+  const [positionErr, setPositionErr] = useState<string | null>(null);
+  // Zap: deposit one token, swapping part of it for the other in this pool
+  const [zapMode, setZapMode] = useState(false);
+  const [zapSide, setZapSide] = useState<"A" | "B">("A");
+  const [zapAmount, setZapAmount] = useState("");
+  const [zapPlan, setZapPlan] = useState<ZapPlan | null>(null);
+  const [zapErr, setZapErr] = useState<string | null>(null);
+  const [zapLoading, setZapLoading] = useState(false);
+  const [zapStep, setZapStep] = useState<string | null>(null);
+  const [swapTxHash, setSwapTxHash] = useState<string | null>(null);
+
+  // Increase mode: take pair, fee and range from the position
+  useEffect(() => {
+    let active = true;
+    setPosition(null);
+    setPositionErr(null);
+    if (tokenId == null || !publicClient) return;
+    (async () => {
+      try {
+        const [p, owner] = await Promise.all([
+          fetchPosition(publicClient, tokenId),
+          publicClient.readContract({
+            address: UNI_V3_ADDRESSES.positionManager as Address,
+            abi: nfpmAbi,
+            functionName: "ownerOf",
+            args: [tokenId],
+          }) as Promise<Address>,
+        ]);
+        if (!active) return;
+        // increaseLiquidity isn't restricted to the owner; don't fund
+        // someone else's position from a shared link
+        if (address && owner.toLowerCase() !== address.toLowerCase()) {
+          setPositionErr(`Position #${tokenId} belongs to another wallet.`);
+          return;
+        }
+        setPosition(p);
+        setTokenA(p.token0);
+        setTokenB(p.token1);
+        setFee(p.fee);
+        setManualRange(false);
+      } catch (e: any) {
+        console.error("Failed to load position", e);
+        if (active) setPositionErr(`Position #${tokenId} not found.`);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [tokenId, publicClient, address]);
 
   // Default pair to WETH / USDC.e once tokens are loaded
   useEffect(() => {
+    if (tokenId != null) return;
     if (!tokens.length) return;
     if (!tokenA) {
       const weth = tokens.find((t) => t.symbol.toLowerCase() === "weth");
@@ -141,7 +298,7 @@ export default function AddLiquidityCard() {
       });
       if (usdc) setTokenB(usdc.address as Address);
     }
-  }, [tokens, tokenA, tokenB]);
+  }, [tokens, tokenA, tokenB, tokenId]);
 
   // Resolve token metadata
   const metaA = tokenA ? byAddr.get(tokenA.toLowerCase()) : undefined;
@@ -230,7 +387,14 @@ export default function AddLiquidityCard() {
   function alignTick(t: number, spacing: number, dir: "down" | "up") {
     const clamped = clampTick(t);
     const q = clamped / spacing;
-    const alignedQ = dir === "down" ? Math.floor(q) : Math.ceil(q);
+    // A price typed from an exact tick comes back a hair off it; keep that tick
+    const nearest = Math.round(q);
+    const alignedQ =
+      Math.abs(q - nearest) < 1e-6
+        ? nearest
+        : dir === "down"
+        ? Math.floor(q)
+        : Math.ceil(q);
     return clampTick(Math.trunc(alignedQ * spacing));
   }
 
@@ -346,6 +510,8 @@ export default function AddLiquidityCard() {
       setTickUpper(null);
       setTickSpacing(null);
       setCurrentTick(null);
+      setSqrtPriceX96(null);
+      setNewPool(null);
       setTxHash(null);
 
       if (!publicClient || !tokenA || !tokenB) return;
@@ -363,12 +529,37 @@ export default function AddLiquidityCard() {
           fee
         );
         if (!pool || pool === "0x0000000000000000000000000000000000000000") {
-          if (active) setPoolErr("Pool not initialized for this pair / fee");
+          // Created together with the first position, at a price the user
+          // sets; only on fee tiers the factory has enabled
+          const spacing = await getFeeTickSpacing(publicClient as any, fee);
+          if (!active) return;
+          if (spacing <= 0) {
+            setPoolErr(
+              `The ${
+                fee / 10000
+              }% fee tier isn't enabled on this factory, so no pool can be created for it. Pick another fee tier.`
+            );
+            return;
+          }
+          setNewPool("missing");
+          setTickSpacing(spacing);
           return;
         }
         const state = await getPoolState(publicClient as any, pool);
         if (!active) return;
 
+        // slot0 is all zeros until initialize(); its tick would read as 0
+        if (!state.initialized) {
+          setNewPool("uninitialized");
+          setPoolAddress(pool);
+          setTickSpacing(
+            Number.isFinite(state.tickSpacing)
+              ? state.tickSpacing
+              : feeToTickSpacing(fee)
+          );
+          return;
+        }
+
         // Defensive extraction for tick and tickSpacing, with fallback to sqrtPriceX96
         // Different RPCs / deployments sometimes return slot0 instead of flat fields.
         const rawTick =
@@ -421,12 +612,11 @@ export default function AddLiquidityCard() {
         setPoolAddress(pool);
         setTickSpacing(spacingNum);
         setCurrentTick(curTickNum);
+        setSqrtPriceX96(rawSqrt != null ? BigInt(rawSqrt) : null);
 
-        const { tickLower, tickUpper } = ticksFromPreset(
-          curTickNum,
-          spacingNum,
-          rangePreset
-        );
+        const { tickLower, tickUpper } = position
+          ? position
+          : ticksFromPreset(curTickNum, spacingNum, rangePreset);
         setTickLower(tickLower);
         setTickUpper(tickUpper);
         if (metaA && metaB) {
@@ -467,16 +657,22 @@ export default function AddLiquidityCard() {
     return () => {
       active = false;
     };
-  }, [
-    publicClient,
-    tokenA,
-    tokenB,
-    fee,
-    rangePreset,
-    manualRange,
-    metaA,
-    metaB,
-  ]);
+  }, [publicClient, tokenA, tokenB, fee, rangePreset, metaA, metaB, position]);
+
+  // Leaving manual mode re-applies the preset without reloading the pool
+  // (the chart stays mounted while its handles are dragged)
+  useEffect(() => {
+    if (manualRange || position || newPool) return;
+    if (currentTick == null || tickSpacing == null) return;
+    const { tickLower, tickUpper } = ticksFromPreset(
+      currentTick,
+      tickSpacing,
+      rangePreset
+    );
+    setTickLower(tickLower);
+    setTickUpper(tickUpper);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [manualRange, rangePreset, currentTick, tickSpacing, position, newPool]);
 
   useEffect(() => {
     if (!manualRange) return;
@@ -574,6 +770,215 @@ export default function AddLiquidityCard() {
     }
   }, [amountB, metaB]);
 
+  const zapToken = zapSide === "A" ? tokenA : tokenB;
+  const zapMeta = zapSide === "A" ? metaA : metaB;
+
+  const zapInWei = useMemo(() => {
+    if (!zapMeta) return 0n;
+    try {
+      return parseUnits(zapAmount || "0", zapMeta.decimals ?? 18);
+    } catch {
+      return 0n;
+    }
+  }, [zapAmount, zapMeta]);
+
+  // Zap plan: swap size, post-swap position and dust for the entered amount
+  useEffect(() => {
+    let active = true;
+    setZapPlan(null);
+    setZapErr(null);
+    if (!zapMode || !publicClient || !poolAddress || newPool) return;
+    if (!tokenA || !tokenB || !zapToken || zapInWei === 0n) return;
+    if (tickLower == null || tickUpper == null || tickLower >= tickUpper)
+      return;
+
+    const otherToken = zapToken === tokenA ? tokenB : tokenA;
+    setZapLoading(true);
+    loadZapPlan(publicClient, poolAddress, fee, {
+      inputIs0: zapToken.toLowerCase() < otherToken.toLowerCase(),
+      amountIn: zapInWei,
+      tickLower: Math.trunc(tickLower),
+      tickUpper: Math.trunc(tickUpper),
+      slippageBps,
+    })
+      .then((plan) => {
+        if (active) setZapPlan(plan);
+      })
+      .catch((e: any) => {
+        console.warn("[AddLiquidity] zap plan failed", e);
+        if (active) setZapErr(e?.message || "Couldn't plan the zap");
+      })
+      .finally(() => {
+        if (active) setZapLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [
+    zapMode,
+    publicClient,
+    poolAddress,
+    newPool,
+    fee,
+    tokenA,
+    tokenB,
+    zapToken,
+    zapInWei,
+    tickLower,
+    tickUpper,
+    slippageBps,
+  ]);
+
+  // Zap preview in the user's A/B order
+  const zapView = useMemo(() => {
+    if (!zapPlan || !tokenA || !tokenB || !metaA || !metaB) return null;
+    const isA0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+    const { mint } = zapPlan;
+    const before = zapPlan.sqrtPriceX96Before * zapPlan.sqrtPriceX96Before;
+    const after = zapPlan.sqrtPriceX96After * zapPlan.sqrtPriceX96After;
+    const shift = before > after ? before - after : after - before;
+    return {
+      depositA: isA0 ? mint.amount0 : mint.amount1,
+      depositB: isA0 ? mint.amount1 : mint.amount0,
+      dustA: isA0 ? zapPlan.dust0 : zapPlan.dust1,
+      dustB: isA0 ? zapPlan.dust1 : zapPlan.dust0,
+      minA: isA0 ? mint.amount0Min : mint.amount1Min,
+      minB: isA0 ? mint.amount1Min : mint.amount0Min,
+      // pool price move caused by the zap's own swap, in percent
+      priceShiftPct:
+        before > 0n ? Number((shift * 1_000_000n) / before) / 10_000 : 0,
+    };
+  }, [zapPlan, tokenA, tokenB, metaA, metaB]);
+
+  // Liquidity per tick for the range chart (none yet for a new pool)
+  useEffect(() => {
+    let active = true;
+    setDepth(null);
+    if (!publicClient || !poolAddress || newPool) return;
+    loadLiquidityDepth(publicClient, poolAddress, fee)
+      .then((d) => {
+        if (active) setDepth(d);
+      })
+      .catch((e) => console.warn("[AddLiquidity] depth load failed", e));
+    return () => {
+      active = false;
+    };
+  }, [publicClient, poolAddress, fee, newPool]);
+
+  // Chart prices: tokenB per tokenA, or the inverse when flipped
+  function chartPriceAtTick(tick: number) {
+    if (!tokenA || !tokenB || !metaA || !metaB) return NaN;
+    const tokenAIs0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+    const dec0 = Number((tokenAIs0 ? metaA : metaB).decimals ?? 18);
+    const dec1 = Number((tokenAIs0 ? metaB : metaA).decimals ?? 18);
+    const p0 = priceFromTick(tick, dec0, dec1);
+    const pB = tokenAIs0 ? p0 : 1 / p0;
+    return invertPrice ? 1 / pB : pB;
+  }
+
+  // Dragging on the chart is a manual range; the price boxes follow it so
+  // the manual-range effect lands on the same ticks
+  function onChartRange(lower: number, upper: number) {
+    const pLower = chartPriceAtTick(lower);
+    const pUpper = chartPriceAtTick(upper);
+    // back to tokenB per tokenA for the inputs
+    const a = invertPrice ? 1 / pLower : pLower;
+    const b = invertPrice ? 1 / pUpper : pUpper;
+    setManualRange(true);
+    setTickLower(lower);
+    setTickUpper(upper);
+    setMinPriceInput(String(Number(Math.min(a, b).toPrecision(12))));
+    setMaxPriceInput(String(Number(Math.max(a, b).toPrecision(12))));
+  }
+
+  // Starting price for a new pool: 1 tokenA = startPriceInput tokenB, in raw
+  // units token1 / token0
+  const startSqrtPriceX96 = useMemo(() => {
+    if (!newPool || !tokenA || !tokenB || !metaA || !metaB) return null;
+    try {
+      const oneA = 10n ** BigInt(metaA.decimals ?? 18);
+      const priceB = parseUnits(startPriceInput || "0", metaB.decimals ?? 18);
+      if (priceB === 0n) return null;
+      const isA0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+      const sqrtX96 = isA0
+        ? encodeSqrtRatioX96(priceB, oneA)
+        : encodeSqrtRatioX96(oneA, priceB);
+      if (sqrtX96 < MIN_SQRT_RATIO || sqrtX96 >= MAX_SQRT_RATIO) return null;
+      return sqrtX96;
+    } catch {
+      return null;
+    }
+  }, [newPool, tokenA, tokenB, metaA, metaB, startPriceInput]);
+
+  // A new pool's "current" price is the starting price, so ranges and
+  // amounts work off it as they would off slot0
+  useEffect(() => {
+    if (!newPool || tickSpacing == null) return;
+    if (startSqrtPriceX96 == null) {
+      setSqrtPriceX96(null);
+      setCurrentTick(null);
+      setTickLower(null);
+      setTickUpper(null);
+      return;
+    }
+    const tick = getTickAtSqrtRatio(startSqrtPriceX96);
+    setSqrtPriceX96(startSqrtPriceX96);
+    setCurrentTick(tick);
+    if (!manualRange) {
+      const { tickLower, tickUpper } = ticksFromPreset(
+        tick,
+        tickSpacing,
+        rangePreset
+      );
+      setTickLower(tickLower);
+      setTickUpper(tickUpper);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [newPool, startSqrtPriceX96, tickSpacing, rangePreset, manualRange]);
+
+  // Liquidity the entered amounts buy at the current price, what the pool
+  // actually takes for it, and the slippage-protected minimums for mint
+  const mintPlan = useMemo(() => {
+    if (!tokenA || !tokenB || sqrtPriceX96 == null || sqrtPriceX96 === 0n)
+      return null;
+    if (tickLower == null || tickUpper == null || tickLower >= tickUpper)
+      return null;
+    if (amountAWei === 0n && amountBWei === 0n) return null;
+
+    const isA0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+    try {
+      const m = mintAmountsWithSlippage({
+        sqrtPriceX96,
+        tickLower: Math.trunc(tickLower),
+        tickUpper: Math.trunc(tickUpper),
+        amount0Desired: isA0 ? amountAWei : amountBWei,
+        amount1Desired: isA0 ? amountBWei : amountAWei,
+        slippageBps,
+      });
+      // back in the user's A/B order for display
+      return {
+        ...m,
+        depositA: isA0 ? m.amount0 : m.amount1,
+        depositB: isA0 ? m.amount1 : m.amount0,
+        refundA: amountAWei - (isA0 ? m.amount0 : m.amount1),
+        refundB: amountBWei - (isA0 ? m.amount1 : m.amount0),
+        minA: isA0 ? m.amount0Min : m.amount1Min,
+        minB: isA0 ? m.amount1Min : m.amount0Min,
+      };
+    } catch {
+      return null;
+    }
+  }, [
+    tokenA,
+    tokenB,
+    sqrtPriceX96,
+    tickLower,
+    tickUpper,
+    amountAWei,
+    amountBWei,
+    slippageBps,
+  ]);
+
   // Fallback: derive current price directly from currentTick (tokenB per tokenA)
   const derivedCurrentPrice = useMemo<number | null>(() => {
     if (!tokenA || !tokenB || !metaA || !metaB || currentTick == null)
@@ -697,10 +1102,36 @@ export default function AddLiquidityCard() {
       metaB: metaB ? { symbol: metaB.symbol, decimals: metaB.decimals } : null,
     });
 
-    if (price == null || !Number.isFinite(price)) return;
     if (!metaA || !metaB) return;
     if (!lastEdited) return;
 
+    // Adding to a position: the ratio comes from its range at the current
+    // price, not the spot price alone
+    if (position && sqrtPriceX96 && tokenA) {
+      const [fromMeta, toMeta, from] =
+        lastEdited === "A" ? [metaA, metaB, amountA] : [metaB, metaA, amountB];
+      let amount: bigint;
+      try {
+        amount = parseUnits(from || "0", fromMeta.decimals ?? 18);
+      } catch {
+        return;
+      }
+      const aIs0 = tokenA.toLowerCase() === position.token0.toLowerCase();
+      const other = pairedAmount({
+        sqrtPriceX96,
+        tickLower: position.tickLower,
+        tickUpper: position.tickUpper,
+        amount,
+        isToken0: lastEdited === "A" ? aIs0 : !aIs0,
+      });
+      const next = formatUnits(other, toMeta.decimals ?? 18);
+      if (lastEdited === "A" && next !== amountB) setAmountB(next);
+      if (lastEdited === "B" && next !== amountA) setAmountA(next);
+      return;
+    }
+
+    if (price == null || !Number.isFinite(price)) return;
+
     if (lastEdited === "A") {
       const aNum = Number(amountA || 0);
       if (!Number.isFinite(aNum)) return;
@@ -751,11 +1182,100 @@ export default function AddLiquidityCard() {
     metaA,
     metaB,
     currentTick,
+    position,
+    sqrtPriceX96,
+    tokenA,
   ]);
 
-  async function ensureAllowance(token: Address, amount: bigint) {
-    if (!walletClient || !publicClient || !address) return;
-    if (amount === 0n) return;
+  // NFPM calldata for the form's pool and range: increaseLiquidity on the
+  // loaded position, create-and-mint for a new pool, otherwise mint
+  function nfpmCalldata({
+    token0,
+    token1,
+    amount0Desired,
+    amount1Desired,
+    amount0Min,
+    amount1Min,
+  }: {
+    token0: Address;
+    token1: Address;
+    amount0Desired: bigint;
+    amount1Desired: bigint;
+    amount0Min: bigint;
+    amount1Min: bigint;
+  }) {
+    const deadline = txDeadline(deadlineMin);
+    const params = {
+      token0,
+      token1,
+      fee,
+      tickLower: tickLower!,
+      tickUpper: tickUpper!,
+      amount0Desired,
+      amount1Desired,
+      amount0Min,
+      amount1Min,
+      recipient: address as Address,
+      deadline,
+    } as const;
+
+    // A new pool is created (or given its price) and minted into in one
+    // NFPM multicall. createAndInitializePoolIfNecessary leaves a pool
+    // someone initialized in the meantime alone; the mins then guard the mint.
+    // Adding to a position keeps its range and NFT.
+    return position
+      ? encodeFunctionData({
+          abi: nfpmAbi,
+          functionName: "increaseLiquidity",
+          args: [
+            {
+              tokenId: position.id,
+              amount0Desired,
+              amount1Desired,
+              amount0Min,
+              amount1Min,
+              deadline,
+            },
+          ],
+        })
+      : newPool
+      ? encodeFunctionData({
+          abi: nfpmAbi,
+          functionName: "multicall",
+          args: [
+            [
+              encodeFunctionData({
+                abi: nfpmAbi,
+                functionName: "createAndInitializePoolIfNecessary",
+                args: [
+                  token0 as Address,
+                  token1 as Address,
+                  fee,
+                  startSqrtPriceX96!,
+                ],
+              }),
+              encodeFunctionData({
+                abi: nfpmAbi,
+                functionName: "mint",
+                args: [params],
+              }),
+            ],
+          ],
+        })
+      : encodeFunctionData({
+          abi: nfpmAbi,
+          functionName: "mint",
+          args: [params],
+        });
+  }
+
+  // The position manager approve `token` still needs for `amount`, or null
+  async function approvalCall(
+    token: Address,
+    amount: bigint
+  ): Promise<BatchCall | null> {
+    if (!publicClient || !address) return null;
+    if (amount === 0n) return null;
 
     const spender = UNI_V3_ADDRESSES.positionManager as Address;
 
@@ -766,16 +1286,28 @@ export default function AddLiquidityCard() {
       args: [address as Address, spender],
     })) as bigint;
 
-    if (current >= amount) return;
+    if (current >= amount) return null;
 
     const maxUint256 = (1n << 256n) - 1n;
+    return {
+      to: token,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [spender, approvalAmount === "exact" ? amount : maxUint256],
+    };
+  }
+
+  async function ensureAllowance(token: Address, amount: bigint) {
+    if (!walletClient || !publicClient || !address) return;
+    const call = await approvalCall(token, amount);
+    if (!call) return;
 
     // Send approve tx
     const hash = await walletClient.writeContract({
-      address: token,
+      address: call.to,
       abi: erc20Abi,
       functionName: "approve",
-      args: [spender, maxUint256],
+      args: call.args as readonly [Address, bigint],
     });
 
     // Wait for mining so mint doesn't run with 0 allowance
@@ -793,8 +1325,12 @@ export default function AddLiquidityCard() {
       setTxErr("Select tokens first");
       return;
     }
+    if (newPool && !startSqrtPriceX96) {
+      setTxErr("Enter a starting price for the new pool");
+      return;
+    }
     if (
-      !poolAddress ||
+      (!poolAddress && !newPool) ||
       tickLower == null ||
       tickUpper == null ||
       tickSpacing == null
@@ -829,123 +1365,429 @@ export default function AddLiquidityCard() {
     const amount0Desired = isA0 ? amountAWei : amountBWei;
     const amount1Desired = isA0 ? amountBWei : amountAWei;
 
-    // For now, don't enforce min amounts – let NFPM take the correct ratio
-    // and refund any unused tokens. We'll wire proper math + true slippage
-    // protection later.
-    const amount0Min = 0n;
-    const amount1Min = 0n;
+    // NFPM takes the ratio the price allows and refunds the rest; the mins
+    // hold it to within the slippage tolerance of the current price
+    if (!mintPlan) {
+      setTxErr("Pool price not loaded yet");
+      return;
+    }
+    if (mintPlan.liquidity === 0n) {
+      setTxErr("Amounts are too small to mint any liquidity in this range");
+      return;
+    }
+    const { amount0Min, amount1Min } = mintPlan;
 
     try {
       setTxPending(true);
 
+      const nfpm = UNI_V3_ADDRESSES.positionManager as Address;
+      const data = nfpmCalldata({
+        token0: token0 as Address,
+        token1: token1 as Address,
+        amount0Desired,
+        amount1Desired,
+        amount0Min,
+        amount1Min,
+      });
+
+      // EIP-5792 wallets approve both sides and mint in one atomic batch
+      const chainId = await walletClient.getChainId();
+      if (await supportsAtomicBatch(walletClient, address, chainId)) {
+        const approvals = (
+          await Promise.all([
+            approvalCall(token0, amount0Desired),
+            approvalCall(token1, amount1Desired),
+          ])
+        ).filter((c): c is BatchCall => c !== null);
+
+        if (approvals.length) {
+          let id: string | null = null;
+          try {
+            id = await sendBatch(walletClient, address, [
+              ...approvals,
+              { to: nfpm, data },
+            ]);
+          } catch (e) {
+            if (!isBatchUnsupported(e)) throw e;
+            console.warn("Wallet can't batch, approving separately", e);
+            markBatchUnsupported(walletClient, address, chainId);
+          }
+
+          // Once the wallet has the batch, never send the mint again
+          if (id) {
+            let batch;
+            try {
+              batch = await waitForBatch(walletClient, id);
+            } catch (e) {
+              console.error("Batch status unavailable", id, e);
+              throw new Error(
+                "The approve and mint batch was sent, but its status couldn't be read. Check your wallet's activity before trying again."
+              );
+            }
+            const last = batch.receipts[batch.receipts.length - 1];
+            if (!last) throw new Error("Batched mint failed");
+            setTxHash(last.transactionHash);
+            if (batch.status === "failure") {
+              setTxErr("Mint transaction reverted.");
+            }
+            return;
+          }
+        }
+      }
+
       // Approvals for both sides (if needed)
       await ensureAllowance(token0, amount0Desired);
       await ensureAllowance(token1, amount1Desired);
 
-      const deadline = BigInt(
-        Math.floor(Date.now() / 1000) +
-          Number(process.env.NEXT_PUBLIC_TX_DEADLINE_MIN ?? 20) * 60
-      );
-
-      const hash = await walletClient.writeContract({
-        address: UNI_V3_ADDRESSES.positionManager as Address,
-        abi: nfpmAbi,
-        functionName: "mint",
-        args: [
-          {
-            token0: token0 as Address,
-            token1: token1 as Address,
-            fee,
-            tickLower: tickLower,
-            tickUpper: tickUpper,
-            amount0Desired,
-            amount1Desired,
-            amount0Min,
-            amount1Min,
-            recipient: address as Address,
-            deadline,
-          },
-        ],
+      const hash = await walletClient.sendTransaction({
+        account: address,
+        chain: walletClient.chain,
+        to: nfpm,
+        data,
         value: 0n,
       });
 
       setTxHash(hash as string);
     } catch (e: any) {
-      const msg =
-        e?.shortMessage ??
-        e?.message ??
-        (typeof e === "string" ? e : "Mint failed");
       console.error("Mint failed", e);
-      setTxErr(msg);
+      setTxErr(txErrorMessage(e, "Mint failed"));
     } finally {
       setTxPending(false);
     }
   }
 
+  // The zap's swap goes through the Universal Router, which pulls `token`
+  // via Permit2: ERC-20 → Permit2, then Permit2 → router, both on-chain
+  async function ensureRouterAllowance(token: Address, amount: bigint) {
+    if (!walletClient || !publicClient || !address) return;
+    const permit2 = UNI_V3_ADDRESSES.permit2 as Address;
+    const router = UNI_V3_ADDRESSES.universalRouter as Address;
+
+    const erc20Allowance = (await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [address, permit2],
+    })) as bigint;
+    if (erc20Allowance < amount) {
+      const maxUint256 = (1n << 256n) - 1n;
+      const hash = await walletClient.writeContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [permit2, approvalAmount === "exact" ? amount : maxUint256],
+      });
+      await publicClient.waitForTransactionReceipt({ hash });
+    }
+
+    const p2Allowance = await readPermit2Allowance(
+      publicClient,
+      address,
+      token,
+      router
+    );
+    if (isPermit2AllowanceValid(p2Allowance, amount)) return;
+    const hash = await walletClient.writeContract({
+      address: permit2,
+      abi: permit2Abi,
+      functionName: "approve",
+      args: [
+        token,
+        router,
+        approvalAmount === "exact" ? amount : MAX_UINT160,
+        Math.floor(Date.now() / 1000) + PERMIT_EXPIRATION_SECONDS,
+      ],
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  // Single-sided deposit: swap the planned share of the input in this pool,
+  // then mint with what the swap actually returned, priced where it left
+  // the pool
+  async function onZap() {
+    setTxErr(null);
+    setTxHash(null);
+    setSwapTxHash(null);
+    if (!walletClient || !publicClient || !address) {
+      setTxErr("Connect wallet first");
+      return;
+    }
+    if (!tokenA || !tokenB || !zapToken) {
+      setTxErr("Select tokens first");
+      return;
+    }
+    if (!poolAddress || newPool || tickLower == null || tickUpper == null) {
+      setTxErr("Zap needs an existing pool with a price");
+      return;
+    }
+    if (!zapPlan) {
+      setTxErr("Zap plan not ready yet");
+      return;
+    }
+    if (zapPlan.mint.liquidity === 0n) {
+      setTxErr("Amount is too small to mint any liquidity in this range");
+      return;
+    }
+
+    const tokenOut = zapToken === tokenA ? tokenB : tokenA;
+    const [token0, token1] =
+      zapToken.toLowerCase() < tokenOut.toLowerCase()
+        ? [zapToken, tokenOut]
+        : [tokenOut, zapToken];
+    const inputIs0 = token0 === zapToken;
+
+    try {
+      setTxPending(true);
+
+      let received = 0n;
+      if (zapPlan.swapAmount > 0n) {
+        const router = UNI_V3_ADDRESSES.universalRouter as Address;
+        setZapStep("Approving swap…");
+        await ensureRouterAllowance(zapToken, zapPlan.swapAmount);
+
+        setZapStep("Swapping…");
+        const { commands, inputs, value } = buildSwapExecuteArgs({
+          tradeType: "exactIn",
+          recipient: address,
+          tokens: [zapToken, tokenOut],
+          fees: [fee],
+          amountIn: zapPlan.swapAmount,
+          amountOut: zapPlan.swapOut,
+          amountOutMinimum: zapPlan.swapOutMin,
+          amountInMaximum: zapPlan.swapAmount,
+        });
+        const { request } = await publicClient.simulateContract({
+          address: router,
+          abi: universalRouterAbi,
+          functionName: "execute",
+          args: [commands, inputs, txDeadline(deadlineMin)],
+          account: address,
+          value,
+        });
+        const swapHash = await walletClient.writeContract(request);
+        setSwapTxHash(swapHash);
+
+        const receipt = await publicClient.waitForTransactionReceipt({
+          hash: swapHash,
+        });
+        const summary = summarizeSwapReceipt(receipt, {
+          payer: address,
+          recipient: address,
+          router,
+          tokenIn: zapToken,
+          tokenOut,
+          weth: UNI_V3_ADDRESSES.weth as Address,
+        });
+        if (summary.status === "reverted") {
+          setTxErr("Swap transaction reverted.");
+          return;
+        }
+        received = summary.amountOut;
+      }
+
+      // Whatever moved the pool since planning (including other trades in
+      // the swap's block) is priced in here; the mins guard the rest
+      const kept = zapInWei - zapPlan.swapAmount;
+      const amount0Desired = inputIs0 ? kept : received;
+      const amount1Desired = inputIs0 ? received : kept;
+      const sqrtNow = await getSqrtPriceX96(publicClient, poolAddress);
+      const m = mintAmountsWithSlippage({
+        sqrtPriceX96: sqrtNow,
+        tickLower: Math.trunc(tickLower),
+        tickUpper: Math.trunc(tickUpper),
+        amount0Desired,
+        amount1Desired,
+        slippageBps,
+      });
+      if (m.liquidity === 0n) {
+        setTxErr(
+          "The swapped balances no longer mint any liquidity in this range."
+        );
+        return;
+      }
+
+      setZapStep("Approving deposit…");
+      await ensureAllowance(token0, amount0Desired);
+      await ensureAllowance(token1, amount1Desired);
+
+      setZapStep(position ? "Increasing liquidity…" : "Minting…");
+      const hash = await walletClient.sendTransaction({
+        account: address,
+        chain: walletClient.chain,
+        to: UNI_V3_ADDRESSES.positionManager as Address,
+        data: nfpmCalldata({
+          token0,
+          token1,
+          amount0Desired,
+          amount1Desired,
+          amount0Min: m.amount0Min,
+          amount1Min: m.amount1Min,
+        }),
+        value: 0n,
+      });
+      setTxHash(hash as string);
+    } catch (e: any) {
+      console.error("Zap failed", e);
+      setTxErr(txErrorMessage(e, "Zap failed"));
+    } finally {
+      setTxPending(false);
+      setZapStep(null);
+    }
+  }
+
   const disableAdd =
     !address ||
     !tokenA ||
     !tokenB ||
     !!poolErr ||
     loadingPool ||
-    (amountAWei === 0n && amountBWei === 0n);
+    (tokenId != null && !position) ||
+    (zapMode
+      ? !!newPool || !zapPlan || zapPlan.mint.liquidity === 0n
+      : (!!newPool && !startSqrtPriceX96) ||
+        (amountAWei === 0n && amountBWei === 0n));
 
   return (
     <div className="max-w-2xl mx-auto rounded-2xl p-4 bg-neutral-900 shadow space-y-4">
       <div className="flex items-center justify-between">
-        <div className="text-xl font-semibold">Add Liquidity</div>
+        <div className="text-xl font-semibold">
+          {tokenId != null ? `Add to position #${tokenId}` : "Add Liquidity"}
+        </div>
+        <button
+          type="button"
+          onClick={() => setZapMode((v) => !v)}
+          disabled={!!newPool}
+          title="Deposit a single token; part of it is swapped for the other"
+          className={`px-2 py-1 rounded text-xs disabled:opacity-40 ${
+            zapMode
+              ? "bg-orange-500/20 text-orange-300 ring-1 ring-orange-500/40"
+              : "bg-neutral-800 hover:bg-neutral-700"
+          }`}
+        >
+          Zap (one token)
+        </button>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-3">
-          <TokenInput label="Token A" value={tokenA} onChange={setTokenA} />
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-xs opacity-70">
-              <span>Amount A {metaA ? `(${metaA.symbol})` : ""}</span>
-              <span>
-                Balance:{" "}
-                {balA
-                  ? formatBalance(balA.value, balA.decimals, metaA?.symbol)
-                  : "-"}
-              </span>
+          {tokenId != null ? (
+            <div className="text-sm">
+              <span className="opacity-70">Token A: </span>
+              {metaA?.symbol ?? "…"}
             </div>
-            <input
-              className="w-full bg-neutral-800 p-2 rounded"
-              placeholder="0.0"
-              value={amountA}
-              onChange={(e) => {
-                setLastEdited("A");
-                setAmountA(e.target.value);
-              }}
-            />
-          </div>
+          ) : (
+            <TokenInput label="Token A" value={tokenA} onChange={setTokenA} />
+          )}
+          {!zapMode && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs opacity-70">
+                <span>Amount A {metaA ? `(${metaA.symbol})` : ""}</span>
+                <span>
+                  Balance:{" "}
+                  {balA
+                    ? formatBalance(balA.value, balA.decimals, metaA?.symbol)
+                    : "-"}
+                </span>
+              </div>
+              <input
+                className="w-full bg-neutral-800 p-2 rounded"
+                placeholder="0.0"
+                value={amountA}
+                onChange={(e) => {
+                  setLastEdited("A");
+                  setAmountA(e.target.value);
+                }}
+              />
+            </div>
+          )}
         </div>
 
         <div className="space-y-3">
-          <TokenInput label="Token B" value={tokenB} onChange={setTokenB} />
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-xs opacity-70">
-              <span>Amount B {metaB ? `(${metaB.symbol})` : ""}</span>
-              <span>
-                Balance:{" "}
-                {balB
-                  ? formatBalance(balB.value, balB.decimals, metaB?.symbol)
-                  : "-"}
-              </span>
+          {tokenId != null ? (
+            <div className="text-sm">
+              <span className="opacity-70">Token B: </span>
+              {metaB?.symbol ?? "…"}
             </div>
-            <input
-              className="w-full bg-neutral-800 p-2 rounded"
-              placeholder="0.0"
-              value={amountB}
-              onChange={(e) => {
-                setLastEdited("B");
-                setAmountB(e.target.value);
-              }}
-            />
-          </div>
+          ) : (
+            <TokenInput label="Token B" value={tokenB} onChange={setTokenB} />
+          )}
+          {!zapMode && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs opacity-70">
+                <span>Amount B {metaB ? `(${metaB.symbol})` : ""}</span>
+                <span>
+                  Balance:{" "}
+                  {balB
+                    ? formatBalance(balB.value, balB.decimals, metaB?.symbol)
+                    : "-"}
+                </span>
+              </div>
+              <input
+                className="w-full bg-neutral-800 p-2 rounded"
+                placeholder="0.0"
+                value={amountB}
+                onChange={(e) => {
+                  setLastEdited("B");
+                  setAmountB(e.target.value);
+                }}
+              />
+            </div>
+          )}
         </div>
       </div>
 
+      {zapMode && (
+        <div className="bg-neutral-900/70 rounded-xl p-3 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <div className="flex gap-2">
+              {(["A", "B"] as const).map((side) => {
+                const meta = side === "A" ? metaA : metaB;
+                return (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setZapSide(side)}
+                    className={`px-2 py-1 rounded ${
+                      zapSide === side
+                        ? "bg-orange-500/20 text-orange-300 ring-1 ring-orange-500/40"
+                        : "bg-neutral-800 hover:bg-neutral-700"
+                    }`}
+                  >
+                    {meta?.symbol ?? `Token ${side}`}
+                  </button>
+                );
+              })}
+            </div>
+            <span className="opacity-70">
+              Balance:{" "}
+              {zapSide === "A"
+                ? balA
+                  ? formatBalance(balA.value, balA.decimals, metaA?.symbol)
+                  : "-"
+                : balB
+                ? formatBalance(balB.value, balB.decimals, metaB?.symbol)
+                : "-"}
+            </span>
+          </div>
+          <input
+            className="w-full bg-neutral-800 p-2 rounded"
+            placeholder="0.0"
+            value={zapAmount}
+            onChange={(e) => setZapAmount(e.target.value)}
+          />
+          <div className="text-[11px] opacity-70">
+            {newPool
+              ? "Zap needs an existing pool to swap through."
+              : zapLoading
+              ? "Working out the swap…"
+              : `Part of your ${
+                  zapMeta?.symbol ?? "token"
+                } is swapped in this pool so the rest matches the range, then both are deposited.`}
+          </div>
+          {zapErr && <div className="text-xs text-amber-400">{zapErr}</div>}
+        </div>
+      )}
+
       <div className="flex items-center justify-between text-sm">
         <SlippageControl value={slippageBps} onChange={setSlippageBps} />
         <div className="text-right opacity-80 flex items-center gap-2">
@@ -953,9 +1795,11 @@ export default function AddLiquidityCard() {
           <select
             className="bg-neutral-800 rounded px-2 py-1 text-sm"
             value={fee}
+            disabled={tokenId != null}
             onChange={(e) => {
               const nextFee = Number(e.target.value);
               setFee(nextFee);
+              if (rememberFeeTier) setSettings({ defaultFeeTier: nextFee });
               setManualRange(false);
               setRangePreset("full");
             }}
@@ -969,48 +1813,91 @@ export default function AddLiquidityCard() {
         </div>
       </div>
 
+      {newPool && metaA && metaB && (
+        <div className="rounded-xl p-3 space-y-2 bg-amber-900/30 text-amber-200">
+          <div className="text-sm font-medium">
+            {newPool === "missing"
+              ? "This pool doesn't exist yet"
+              : "This pool exists but has no price yet"}
+          </div>
+          <div className="text-[11px] opacity-90">
+            Adding liquidity will{" "}
+            {newPool === "missing" ? "create the pool and set" : "set"} its
+            starting price. If that price is off from the market, arbitrageurs
+            will trade against your position right away and you lose the
+            difference. Check the price on another market before continuing.
+          </div>
+          <label className="block text-[11px] opacity-80">
+            Starting price ({metaB.symbol} per {metaA.symbol})
+            <input
+              className="mt-1 w-full bg-neutral-800 p-2 rounded text-sm text-neutral-100"
+              placeholder="0.00"
+              value={startPriceInput}
+              onChange={(e) => setStartPriceInput(e.target.value)}
+            />
+          </label>
+          <div className="text-[11px] opacity-80">
+            {startSqrtPriceX96 && Number(startPriceInput) > 0
+              ? `1 ${metaA.symbol} = ${formatPrice(
+                  Number(startPriceInput),
+                  6
+                )} ${metaB.symbol} · 1 ${metaB.symbol} = ${formatPrice(
+                  1 / Number(startPriceInput),
+                  6
+                )} ${metaA.symbol}`
+              : startPriceInput
+              ? "Enter a valid price."
+              : "Enter the price the pool should start at."}
+          </div>
+        </div>
+      )}
+
       <div className="bg-neutral-900/70 rounded-xl p-3 space-y-2">
         <div className="flex items-center justify-between">
           <div className="text-sm font-medium">Range</div>
-          <div className="flex items-center gap-2">
-            <button
-              type="button"
-              onClick={() => setManualRange((v) => !v)}
-              className={`px-2 py-1 rounded text-xs ${
-                manualRange
-                  ? "bg-orange-500/20 text-orange-300 ring-1 ring-orange-500/40"
-                  : "bg-neutral-800 hover:bg-neutral-700"
-              }`}
-            >
-              Manual
-            </button>
-            <div className="flex gap-2">
-              {(
-                [
-                  { key: "full", label: "Full" },
-                  { key: "50", label: "50%" },
-                  { key: "20", label: "20%" },
-                  { key: "10", label: "10%" },
-                ] as const
-              ).map((r) => (
-                <button
-                  key={r.key}
-                  type="button"
-                  onClick={() => {
-                    setManualRange(false);
-                    setRangePreset(r.key);
-                  }}
-                  className={`px-2 py-1 rounded text-xs ${
-                    rangePreset === r.key && !manualRange
-                      ? "bg-orange-500/20 text-orange-300 ring-1 ring-orange-500/40"
-                      : "bg-neutral-800 hover:bg-neutral-700"
-                  }`}
-                >
-                  {r.label}
-                </button>
-              ))}
+          {tokenId != null ? (
+            <span className="text-xs opacity-70">Locked to the position</span>
+          ) : (
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setManualRange((v) => !v)}
+                className={`px-2 py-1 rounded text-xs ${
+                  manualRange
+                    ? "bg-orange-500/20 text-orange-300 ring-1 ring-orange-500/40"
+                    : "bg-neutral-800 hover:bg-neutral-700"
+                }`}
+              >
+                Manual
+              </button>
+              <div className="flex gap-2">
+                {(
+                  [
+                    { key: "full", label: "Full" },
+                    { key: "50", label: "50%" },
+                    { key: "20", label: "20%" },
+                    { key: "10", label: "10%" },
+                  ] as const
+                ).map((r) => (
+                  <button
+                    key={r.key}
+                    type="button"
+                    onClick={() => {
+                      setManualRange(false);
+                      setRangePreset(r.key);
+                    }}
+                    className={`px-2 py-1 rounded text-xs ${
+                      rangePreset === r.key && !manualRange
+                        ? "bg-orange-500/20 text-orange-300 ring-1 ring-orange-500/40"
+                        : "bg-neutral-800 hover:bg-neutral-700"
+                    }`}
+                  >
+                    {r.label}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
         </div>
         <div className="text-[11px] opacity-70">
           {currentTick != null &&
@@ -1039,7 +1926,7 @@ export default function AddLiquidityCard() {
                   ↔
                 </button>
               </div>
-              {rangePreset === "full" && !manualRange ? (
+              {rangePreset === "full" && !manualRange && !position ? (
                 <div>Min/Max: Full range</div>
               ) : (
                 <div>
@@ -1053,6 +1940,29 @@ export default function AddLiquidityCard() {
           )}
         </div>
 
+        {tokenId == null &&
+          currentTick != null &&
+          tickSpacing != null &&
+          metaA &&
+          metaB && (
+            <PriceRange
+              depth={depth}
+              currentTick={currentTick}
+              tickSpacing={tickSpacing}
+              tickLower={tickLower}
+              tickUpper={tickUpper}
+              onChange={onChartRange}
+              priceAtTick={chartPriceAtTick}
+              unit={
+                invertPrice
+                  ? `${metaA.symbol} per ${metaB.symbol}`
+                  : `${metaB.symbol} per ${metaA.symbol}`
+              }
+              inverted={invertPrice}
+              onInvert={() => setInvertPrice((v) => !v)}
+            />
+          )}
+
         {manualRange && (
           <div className="grid grid-cols-2 gap-2 pt-1">
             <label className="text-[11px] opacity-70">
@@ -1092,6 +2002,8 @@ export default function AddLiquidityCard() {
               </a>
             ) : loadingPool ? (
               "Loading…"
+            ) : newPool === "missing" ? (
+              "New pool (created when you add)"
             ) : (
               "—"
             )}
@@ -1100,7 +2012,7 @@ export default function AddLiquidityCard() {
         <div className="flex justify-between">
           <span className="opacity-70">Range</span>
           <span>
-            {rangePreset === "full" && !manualRange
+            {rangePreset === "full" && !manualRange && !position
               ? tickLower != null && tickUpper != null
                 ? `Full range (ticks ${tickLower} → ${tickUpper})`
                 : "Full range"
@@ -1117,22 +2029,158 @@ export default function AddLiquidityCard() {
               : "—"}
           </span>
         </div>
+        {zapMode && zapPlan && zapView && metaA && metaB && zapMeta && (
+          <>
+            <div className="flex justify-between">
+              <span className="opacity-70">Swap</span>
+              <span>
+                {zapPlan.swapAmount > 0n
+                  ? `${formatBalance(
+                      zapPlan.swapAmount,
+                      zapMeta.decimals,
+                      zapMeta.symbol
+                    )} → ${formatBalance(
+                      zapPlan.swapOut,
+                      (zapSide === "A" ? metaB : metaA).decimals,
+                      (zapSide === "A" ? metaB : metaA).symbol
+                    )}`
+                  : "None needed"}
+              </span>
+            </div>
+            {zapPlan.swapAmount > 0n && (
+              <>
+                <div className="flex justify-between">
+                  <span className="opacity-70">
+                    Minimum received ({(slippageBps / 100).toFixed(2)}%
+                    slippage)
+                  </span>
+                  <span>
+                    {formatBalance(
+                      zapPlan.swapOutMin,
+                      (zapSide === "A" ? metaB : metaA).decimals,
+                      (zapSide === "A" ? metaB : metaA).symbol
+                    )}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-70">Pool price impact</span>
+                  <span
+                    className={
+                      zapView.priceShiftPct >= 5 ? "text-amber-400" : ""
+                    }
+                  >
+                    {zapView.priceShiftPct < 0.01
+                      ? "<0.01%"
+                      : `${zapView.priceShiftPct.toFixed(2)}%`}
+                  </span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between">
+              <span className="opacity-70">Resulting position</span>
+              <span>
+                {formatBalance(zapView.depositA, metaA.decimals, metaA.symbol)}{" "}
+                +{" "}
+                {formatBalance(zapView.depositB, metaB.decimals, metaB.symbol)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="opacity-70">Liquidity</span>
+              <span className="font-mono text-[11px]">
+                {zapPlan.mint.liquidity.toString()}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="opacity-70">Leftover (dust)</span>
+              <span>
+                {formatBalance(zapView.dustA, metaA.decimals, metaA.symbol)} +{" "}
+                {formatBalance(zapView.dustB, metaB.decimals, metaB.symbol)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="opacity-70">Minimum deposit</span>
+              <span>
+                {formatBalance(zapView.minA, metaA.decimals, metaA.symbol)} +{" "}
+                {formatBalance(zapView.minB, metaB.decimals, metaB.symbol)}
+              </span>
+            </div>
+          </>
+        )}
+        {!zapMode && mintPlan && metaA && metaB && (
+          <>
+            <div className="flex justify-between">
+              <span className="opacity-70">Expected deposit</span>
+              <span>
+                {formatBalance(mintPlan.depositA, metaA.decimals, metaA.symbol)}{" "}
+                +{" "}
+                {formatBalance(mintPlan.depositB, metaB.decimals, metaB.symbol)}
+              </span>
+            </div>
+            {(mintPlan.refundA > 0n || mintPlan.refundB > 0n) && (
+              <div className="flex justify-between">
+                <span className="opacity-70">Refunded (unused)</span>
+                <span>
+                  {formatBalance(
+                    mintPlan.refundA,
+                    metaA.decimals,
+                    metaA.symbol
+                  )}{" "}
+                  +{" "}
+                  {formatBalance(
+                    mintPlan.refundB,
+                    metaB.decimals,
+                    metaB.symbol
+                  )}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="opacity-70">
+                Minimum deposit ({(slippageBps / 100).toFixed(2)}% slippage)
+              </span>
+              <span>
+                {formatBalance(mintPlan.minA, metaA.decimals, metaA.symbol)} +{" "}
+                {formatBalance(mintPlan.minB, metaB.decimals, metaB.symbol)}
+              </span>
+            </div>
+          </>
+        )}
       </div>
 
+      {positionErr && <div className="text-xs text-red-400">{positionErr}</div>}
       {poolErr && <div className="text-xs text-amber-400">{poolErr}</div>}
       {txErr && <div className="text-xs text-red-400">{txErr}</div>}
+      {swapTxHash && (
+        <div className="text-xs text-emerald-400 break-all">
+          Swap tx: {swapTxHash}
+        </div>
+      )}
       {txHash && (
         <div className="text-xs text-emerald-400 break-all">
-          Mint tx: {txHash}
+          {position ? "Increase tx" : "Mint tx"}: {txHash}
         </div>
       )}
 
       <button
         className="btn w-full"
-        onClick={onAdd}
+        onClick={zapMode ? onZap : onAdd}
         disabled={disableAdd || txPending}
       >
-        {txPending ? "Adding liquidity…" : "Add liquidity"}
+        {txPending && zapStep
+          ? zapStep
+          : zapMode
+          ? txPending
+            ? "Zapping…"
+            : "Zap and add liquidity"
+          : txPending
+          ? newPool
+            ? "Creating pool…"
+            : "Adding liquidity…"
+          : newPool
+          ? "Create pool and add liquidity"
+          : position
+          ? "Increase liquidity"
+          : "Add liquidity"}
       </button>
     </div>
   );
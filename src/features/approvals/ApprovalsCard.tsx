@@ -0,0 +1,394 @@
+// src/features/approvals/ApprovalsCard.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address } from "viem";
+import { erc20Abi, formatUnits, parseUnits } from "viem";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { useTokens } from "@/state/useTokens";
+import { isNativeToken } from "@/lib/tokens";
+import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import { permit2Abi, MAX_UINT160 } from "@/lib/univ3/permit2";
+import {
+  scanAllowances,
+  isExpired,
+  allowanceKey,
+  permit2LockdownAbi,
+  type TokenAllowance,
+} from "@/lib/univ3/approvals";
+import { txErrorMessage } from "@/lib/univ3/errors";
+
+// At or above this an allowance is effectively unlimited
+const UNLIMITED = MAX_UINT160;
+
+export default function ApprovalsCard() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { tokens, byAddr } = useTokens();
+
+  const [rows, setRows] = useState<TokenAllowance[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reduceTo, setReduceTo] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<{
+    type: "info" | "error" | "success";
+    message: string;
+  } | null>(null);
+
+  const tokenAddrs = useMemo(
+    () =>
+      tokens
+        .filter((t) => !isNativeToken(t.address))
+        .map((t) => t.address as Address),
+    [tokens]
+  );
+
+  const scan = useCallback(async () => {
+    if (!publicClient || !address || !tokenAddrs.length) {
+      setRows([]);
+      return;
+    }
+    setScanning(true);
+    try {
+      const found = await scanAllowances(publicClient, {
+        owner: address,
+        tokens: tokenAddrs,
+      });
+      setRows(found);
+      setSelected(new Set());
+    } catch (e: any) {
+      console.error("Allowance scan failed", e);
+      setStatus({
+        type: "error",
+        message: e?.shortMessage ?? e?.message ?? "Failed to load approvals",
+      });
+    } finally {
+      setScanning(false);
+    }
+  }, [publicClient, address, tokenAddrs]);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  const symbolOf = (a: Address) =>
+    byAddr.get(a.toLowerCase())?.symbol ?? `${a.slice(0, 6)}…`;
+  const decimalsOf = (a: Address) =>
+    byAddr.get(a.toLowerCase())?.decimals ?? 18;
+
+  function formatAmount(a: TokenAllowance) {
+    if (a.amount >= UNLIMITED) return "Unlimited";
+    return `${Number(formatUnits(a.amount, decimalsOf(a.token))).toFixed(
+      4
+    )} ${symbolOf(a.token)}`;
+  }
+
+  async function send(request: any) {
+    const hash = await walletClient!.writeContract(request);
+    await publicClient!.waitForTransactionReceipt({ hash });
+  }
+
+  // ERC-20: approve(spender, amount); Permit2: approve(token, spender, amount,
+  // expiration), keeping the current expiration when reducing
+  async function setAllowance(a: TokenAllowance, amount: bigint) {
+    if (a.kind === "erc20") {
+      const { request } = await publicClient!.simulateContract({
+        address: a.token,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [a.spender.address, amount],
+        account: address as Address,
+      });
+      await send(request);
+      return;
+    }
+    const { request } = await publicClient!.simulateContract({
+      address: UNI_V3_ADDRESSES.permit2 as Address,
+      abi: permit2Abi,
+      functionName: "approve",
+      args: [a.token, a.spender.address, amount, a.expiration ?? 0],
+      account: address as Address,
+    });
+    await send(request);
+  }
+
+  async function onRevoke(a: TokenAllowance) {
+    if (!walletClient || !publicClient || !address) return;
+    const key = allowanceKey(a);
+    try {
+      setBusy(key);
+      setStatus(null);
+      await setAllowance(a, 0n);
+      setStatus({
+        type: "success",
+        message: `Revoked ${symbolOf(a.token)} for ${a.spender.label}.`,
+      });
+      await scan();
+    } catch (e: any) {
+      console.error("Revoke failed", e);
+      setStatus({ type: "error", message: txErrorMessage(e, "Revoke failed") });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function onReduce(a: TokenAllowance) {
+    if (!walletClient || !publicClient || !address) return;
+    const key = allowanceKey(a);
+    let amount: bigint;
+    try {
+      amount = parseUnits(reduceTo[key] || "", decimalsOf(a.token));
+    } catch {
+      setStatus({ type: "error", message: "Enter a valid amount." });
+      return;
+    }
+    if (amount >= a.amount) {
+      setStatus({
+        type: "error",
+        message: "The new allowance must be below the current one.",
+      });
+      return;
+    }
+    try {
+      setBusy(key);
+      setStatus(null);
+      await setAllowance(a, amount);
+      setStatus({
+        type: "success",
+        message: `Reduced ${symbolOf(a.token)} allowance for ${
+          a.spender.label
+        }.`,
+      });
+      setReduceTo((r) => ({ ...r, [key]: "" }));
+      await scan();
+    } catch (e: any) {
+      console.error("Reduce failed", e);
+      setStatus({ type: "error", message: txErrorMessage(e, "Reduce failed") });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  /**
+   * Permit2 sub-allowances are revoked together with one lockdown() call;
+   * ERC-20 approvals need one transaction per token.
+   */
+  async function onRevokeSelected() {
+    if (!walletClient || !publicClient || !address) return;
+    const picked = rows.filter((r) => selected.has(allowanceKey(r)));
+    if (!picked.length) return;
+
+    const permit2Rows = picked.filter((r) => r.kind === "permit2");
+    const erc20Rows = picked.filter((r) => r.kind === "erc20");
+    const total = (permit2Rows.length ? 1 : 0) + erc20Rows.length;
+    let done = 0;
+
+    try {
+      setBusy("batch");
+      if (permit2Rows.length) {
+        setStatus({
+          type: "info",
+          message: `Revoking ${
+            permit2Rows.length
+          } Permit2 allowance(s) in one transaction (${done + 1}/${total})…`,
+        });
+        const { request } = await publicClient.simulateContract({
+          address: UNI_V3_ADDRESSES.permit2 as Address,
+          abi: permit2LockdownAbi,
+          functionName: "lockdown",
+          args: [
+            permit2Rows.map((r) => ({
+              token: r.token,
+              spender: r.spender.address,
+            })),
+          ],
+          account: address,
+        });
+        await send(request);
+        done++;
+      }
+
+      for (const r of erc20Rows) {
+        setStatus({
+          type: "info",
+          message: `Revoking ${symbolOf(r.token)} for ${r.spender.label} (${
+            done + 1
+          }/${total})…`,
+        });
+        await setAllowance(r, 0n);
+        done++;
+      }
+
+      setStatus({
+        type: "success",
+        message: `Revoked ${picked.length} allowance(s).`,
+      });
+    } catch (e: any) {
+      console.error("Batch revoke failed", e);
+      setStatus({
+        type: "error",
+        message: `${done}/${total} transaction(s) went through. ${txErrorMessage(
+          e,
+          "Revoke failed"
+        )}`,
+      });
+    } finally {
+      setBusy(null);
+      await scan();
+    }
+  }
+
+  function toggle(key: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  const allSelected = rows.length > 0 && selected.size === rows.length;
+
+  return (
+    <div className="max-w-2xl mx-auto rounded-2xl p-4 bg-neutral-900 shadow space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-xl font-semibold">Token approvals</div>
+        <button
+          type="button"
+          className="text-xs underline opacity-70"
+          onClick={scan}
+          disabled={scanning || busy !== null}
+        >
+          {scanning ? "Scanning…" : "Refresh"}
+        </button>
+      </div>
+      <div className="text-xs opacity-60">
+        Allowances your wallet has granted to the swap, liquidity and Permit2
+        contracts, for every token in your token lists.
+      </div>
+
+      {!address && (
+        <div className="text-sm opacity-80">
+          Connect your wallet to see its approvals.
+        </div>
+      )}
+      {address && !scanning && rows.length === 0 && (
+        <div className="text-sm opacity-80">No active approvals found.</div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="flex items-center justify-between text-xs">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() =>
+                setSelected(
+                  allSelected ? new Set() : new Set(rows.map(allowanceKey))
+                )
+              }
+            />
+            <span>Select all</span>
+          </label>
+          <button
+            type="button"
+            className="btn"
+            onClick={onRevokeSelected}
+            disabled={!selected.size || busy !== null}
+          >
+            {busy === "batch"
+              ? "Revoking…"
+              : `Revoke selected (${selected.size})`}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {rows.map((a) => {
+          const key = allowanceKey(a);
+          const expired = isExpired(a);
+          return (
+            <div
+              key={key}
+              className="bg-neutral-800 rounded-xl p-3 text-xs space-y-2"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(key)}
+                    onChange={() => toggle(key)}
+                  />
+                  <span className="font-semibold">{symbolOf(a.token)}</span>
+                  <span className="opacity-60">→ {a.spender.label}</span>
+                </label>
+                <span
+                  className={`rounded px-1.5 py-0.5 ${
+                    a.kind === "permit2" ? "bg-indigo-900" : "bg-neutral-700"
+                  }`}
+                >
+                  {a.kind === "permit2" ? "Permit2" : "ERC-20"}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between opacity-80">
+                <span>{formatAmount(a)}</span>
+                {a.kind === "permit2" && (
+                  <span className={expired ? "text-neutral-500" : ""}>
+                    {expired ? "Expired " : "Expires "}
+                    {new Date((a.expiration ?? 0) * 1000).toLocaleString()}
+                  </span>
+                )}
+              </div>
+              <div className="opacity-50 font-mono">{a.spender.address}</div>
+
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 bg-neutral-900 p-1.5 rounded"
+                  placeholder={`New amount (${symbolOf(a.token)})`}
+                  value={reduceTo[key] ?? ""}
+                  onChange={(e) =>
+                    setReduceTo((r) => ({ ...r, [key]: e.target.value }))
+                  }
+                />
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => onReduce(a)}
+                  disabled={busy !== null || !reduceTo[key]}
+                >
+                  {busy === key ? "…" : "Reduce"}
+                </button>
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => onRevoke(a)}
+                  disabled={busy !== null}
+                >
+                  {busy === key ? "Revoking…" : "Revoke"}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {status && (
+        <div
+          className={[
+            "text-xs text-center px-3 py-2 rounded-lg",
+            status.type === "error"
+              ? "bg-red-900/40 text-red-300"
+              : status.type === "success"
+              ? "bg-emerald-900/40 text-emerald-300"
+              : "bg-neutral-800 text-neutral-200",
+          ].join(" ")}
+        >
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,628 @@
+// src/features/limit/LimitOrderCard.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address } from "viem";
+import { formatUnits, parseUnits } from "viem";
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useWalletClient,
+} from "wagmi";
+
+import TokenInput from "@/components/TokenInput";
+import { useTokens } from "@/state/useTokens";
+import { useSettings, txDeadline } from "@/state/useSettings";
+import { FEE_TIERS } from "@/hooks/useAutoFeeTier";
+import { findPool, getPoolState } from "@/lib/univ3/pools";
+import { priceFromTick, tickFromPrice } from "@/lib/math/price";
+import {
+  LIMIT_ORDER_REGISTRY,
+  limitOrderRegistryAbi,
+  orderTicks,
+  targetTickFor,
+  orderStatus,
+  loadStoredOrders,
+  saveStoredOrders,
+  mergeOrders,
+  orderKey,
+  markOrderClosed,
+  loadClosedOrderKeys,
+  fetchOrdersFromLogs,
+  readClaimInfo,
+  type LimitOrder,
+  type OrderStatus,
+} from "@/lib/univ3/limitOrders";
+import { txErrorMessage } from "@/lib/univ3/errors";
+
+const erc20Abi = [
+  {
+    type: "function",
+    name: "allowance",
+    stateMutability: "view",
+    inputs: [
+      { name: "o", type: "address" },
+      { name: "s", type: "address" },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "approve",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "s", type: "address" },
+      { name: "v", type: "uint256" },
+    ],
+    outputs: [{ type: "bool" }],
+  },
+] as const;
+
+type PoolInfo = {
+  pool: Address;
+  token0: Address;
+  token1: Address;
+  tick: number;
+  tickSpacing: number;
+};
+
+type OrderRow = LimitOrder & {
+  status: OrderStatus;
+  currentTick: number | null;
+  claimReady: boolean;
+  claimFee: bigint;
+};
+
+const STATUS_LABEL: Record<OrderStatus, string> = {
+  open: "Open",
+  partial: "Partially filled",
+  filled: "Filled",
+};
+
+export default function LimitOrderCard() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { tokens, byAddr } = useTokens();
+  const {
+    deadlineMin,
+    approvalAmount,
+    defaultFeeTier,
+    rememberFeeTier,
+    set: setSettings,
+  } = useSettings();
+
+  const [sellToken, setSellToken] = useState<Address | undefined>();
+  const [buyToken, setBuyToken] = useState<Address | undefined>();
+  // Follows the settings default until picked here
+  const [feeOverride, setFee] = useState<number | null>(null);
+  const fee = feeOverride ?? defaultFeeTier;
+  const [amount, setAmount] = useState("");
+  const [targetPrice, setTargetPrice] = useState("");
+
+  const [poolInfo, setPoolInfo] = useState<PoolInfo | null>(null);
+  const [poolErr, setPoolErr] = useState<string | null>(null);
+
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [loadingOrders, setLoadingOrders] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<{
+    type: "info" | "error" | "success";
+    message: string;
+  } | null>(null);
+
+  const tSell = sellToken ? byAddr.get(sellToken.toLowerCase()) : undefined;
+  const tBuy = buyToken ? byAddr.get(buyToken.toLowerCase()) : undefined;
+
+  // Defaults: sell WETH for USDC.e
+  useEffect(() => {
+    if (!tokens.length) return;
+    if (!sellToken) {
+      const weth = tokens.find((t) => t.symbol.toLowerCase() === "weth");
+      if (weth) setSellToken(weth.address as Address);
+    }
+    if (!buyToken) {
+      const usdc = tokens.find((t) => {
+        const s = t.symbol.toLowerCase();
+        return s === "usdc.e" || s === "usdc";
+      });
+      if (usdc) setBuyToken(usdc.address as Address);
+    }
+  }, [tokens, sellToken, buyToken]);
+
+  // Pool + current tick for the selected pair/fee
+  useEffect(() => {
+    let active = true;
+    setPoolInfo(null);
+    setPoolErr(null);
+
+    async function run() {
+      if (!publicClient || !sellToken || !buyToken) return;
+      if (sellToken.toLowerCase() === buyToken.toLowerCase()) {
+        setPoolErr("Pick two different tokens");
+        return;
+      }
+      try {
+        const found = await findPool(publicClient, sellToken, buyToken, fee);
+        if (!found) {
+          if (active) setPoolErr("No pool for this pair at this fee tier");
+          return;
+        }
+        const s = await getPoolState(publicClient, found.pool);
+        if (!active) return;
+        if (!s.initialized) {
+          setPoolErr("Pool not initialized");
+          return;
+        }
+        setPoolInfo({
+          pool: found.pool,
+          token0: found.token0,
+          token1: found.token1,
+          tick: Number((s.slot0 as any)[1]),
+          tickSpacing: s.tickSpacing,
+        });
+      } catch (e: any) {
+        if (active)
+          setPoolErr(e?.shortMessage ?? e?.message ?? "Pool lookup failed");
+      }
+    }
+
+    run();
+    return () => {
+      active = false;
+    };
+  }, [publicClient, sellToken, buyToken, fee]);
+
+  // Selling token0 fills as price (token1 per token0) rises, token1 as it falls
+  const direction =
+    !!poolInfo &&
+    !!sellToken &&
+    poolInfo.token0.toLowerCase() === sellToken.toLowerCase();
+
+  const dec0 = poolInfo
+    ? byAddr.get(poolInfo.token0.toLowerCase())?.decimals ?? 18
+    : 18;
+  const dec1 = poolInfo
+    ? byAddr.get(poolInfo.token1.toLowerCase())?.decimals ?? 18
+    : 18;
+
+  // Prices are shown as "buy token per 1 sell token"
+  const toDisplayPrice = useCallback(
+    (tick: number) => {
+      const p = priceFromTick(tick, dec0, dec1);
+      return direction ? p : 1 / p;
+    },
+    [dec0, dec1, direction]
+  );
+
+  const currentPrice = poolInfo ? toDisplayPrice(poolInfo.tick) : null;
+
+  const order = useMemo(() => {
+    if (!poolInfo) return null;
+    const p = Number(targetPrice);
+    if (!Number.isFinite(p) || p <= 0) return null;
+
+    const rawTick = tickFromPrice(direction ? p : 1 / p, dec0, dec1);
+    const targetTick = targetTickFor(
+      rawTick,
+      poolInfo.tick,
+      poolInfo.tickSpacing,
+      direction
+    );
+    if (targetTick === null) return { error: true as const };
+
+    const ticks = orderTicks(targetTick, poolInfo.tickSpacing, direction);
+    // Filled once price has crossed the far edge of the range
+    const fillTick = direction ? ticks.tickUpper : ticks.tickLower;
+    return {
+      error: false as const,
+      targetTick,
+      ...ticks,
+      fillPrice: toDisplayPrice(fillTick),
+    };
+  }, [poolInfo, targetPrice, direction, dec0, dec1, toDisplayPrice]);
+
+  const amountWei = useMemo(() => {
+    try {
+      return parseUnits(amount || "0", tSell?.decimals ?? 18);
+    } catch {
+      return 0n;
+    }
+  }, [amount, tSell?.decimals]);
+
+  // --- Orders list ---
+  const refreshOrders = useCallback(async () => {
+    if (!publicClient || !address) {
+      setOrders([]);
+      return;
+    }
+    setLoadingOrders(true);
+    try {
+      const stored = loadStoredOrders(chainId, address);
+
+      let fromLogs: LimitOrder[] = [];
+      try {
+        fromLogs = await fetchOrdersFromLogs(publicClient, address);
+      } catch (e) {
+        console.warn("[LimitOrderCard] NewOrder log scan failed", e);
+      }
+
+      const closed = loadClosedOrderKeys(chainId, address);
+      const merged = mergeOrders(fromLogs, stored).filter(
+        (o) => !closed.has(orderKey(o))
+      );
+      const rows = await Promise.all(
+        merged.map(async (o): Promise<OrderRow> => {
+          let currentTick: number | null = null;
+          let claimReady = false;
+          let claimFee = 0n;
+          try {
+            const s = await getPoolState(publicClient, o.pool);
+            currentTick = Number((s.slot0 as any)[1]);
+            const info = await readClaimInfo(publicClient, BigInt(o.batchId));
+            claimReady = info.ready;
+            claimFee = info.fee;
+          } catch (e) {
+            console.warn("[LimitOrderCard] order state read failed", e);
+          }
+          return {
+            ...o,
+            currentTick,
+            status: currentTick === null ? "open" : orderStatus(currentTick, o),
+            claimReady,
+            claimFee,
+          };
+        })
+      );
+      setOrders(rows);
+    } finally {
+      setLoadingOrders(false);
+    }
+  }, [publicClient, address, chainId]);
+
+  useEffect(() => {
+    refreshOrders();
+  }, [refreshOrders]);
+
+  // --- Place ---
+  async function onPlace() {
+    if (!walletClient || !publicClient || !address) {
+      setStatus({ type: "error", message: "Connect wallet first" });
+      return;
+    }
+    if (!poolInfo || !sellToken || !order || order.error) return;
+    if (amountWei === 0n) return;
+
+    try {
+      setBusy("place");
+      setStatus(null);
+
+      const allowance = (await publicClient.readContract({
+        address: sellToken,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [address, LIMIT_ORDER_REGISTRY],
+      })) as bigint;
+
+      if (allowance < amountWei) {
+        setStatus({ type: "info", message: "Approving registry…" });
+        const hash = await walletClient.writeContract({
+          address: sellToken,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [
+            LIMIT_ORDER_REGISTRY,
+            approvalAmount === "exact" ? amountWei : (1n << 256n) - 1n,
+          ],
+        });
+        await publicClient.waitForTransactionReceipt({ hash });
+      }
+
+      // startingNode 0: let the registry walk its order list from the head
+      const { request, result } = await publicClient.simulateContract({
+        address: LIMIT_ORDER_REGISTRY,
+        abi: limitOrderRegistryAbi,
+        functionName: "newOrder",
+        args: [
+          poolInfo.pool,
+          order.targetTick,
+          amountWei,
+          direction,
+          0n,
+          txDeadline(deadlineMin),
+        ],
+        account: address,
+      });
+
+      const hash = await walletClient.writeContract(request);
+      setStatus({
+        type: "info",
+        message: "Order submitted. Waiting for confirmation…",
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success")
+        throw new Error("Order transaction reverted");
+
+      const stored = loadStoredOrders(chainId, address);
+      const placed: LimitOrder = {
+        pool: poolInfo.pool,
+        batchId: (result as bigint).toString(),
+        direction,
+        targetTick: order.targetTick,
+        tickLower: order.tickLower,
+        tickUpper: order.tickUpper,
+        amount: amountWei.toString(),
+        token0: poolInfo.token0,
+        token1: poolInfo.token1,
+        createdAt: Date.now(),
+      };
+      saveStoredOrders(chainId, address, mergeOrders(stored, [placed]));
+
+      setStatus({ type: "success", message: "Limit order placed." });
+      setAmount("");
+      await refreshOrders();
+    } catch (e: any) {
+      console.error("newOrder failed", e);
+      setStatus({
+        type: "error",
+        message: txErrorMessage(e, "Failed to place order"),
+      });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  // --- Cancel / claim ---
+  async function onCancel(o: OrderRow) {
+    if (!walletClient || !publicClient || !address) return;
+    try {
+      setBusy(`cancel:${o.batchId}`);
+      const { request } = await publicClient.simulateContract({
+        address: LIMIT_ORDER_REGISTRY,
+        abi: limitOrderRegistryAbi,
+        functionName: "cancelOrder",
+        args: [o.pool, o.targetTick, o.direction, txDeadline(deadlineMin)],
+        account: address,
+      });
+      const hash = await walletClient.writeContract(request);
+      await publicClient.waitForTransactionReceipt({ hash });
+      markOrderClosed(chainId, address, o);
+      setStatus({ type: "success", message: "Order cancelled." });
+      await refreshOrders();
+    } catch (e: any) {
+      console.error("cancelOrder failed", e);
+      setStatus({
+        type: "error",
+        message: txErrorMessage(e, "Failed to cancel order"),
+      });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function onClaim(o: OrderRow) {
+    if (!walletClient || !publicClient || !address) return;
+    try {
+      setBusy(`claim:${o.batchId}`);
+      const { request } = await publicClient.simulateContract({
+        address: LIMIT_ORDER_REGISTRY,
+        abi: limitOrderRegistryAbi,
+        functionName: "claimOrder",
+        args: [BigInt(o.batchId), address],
+        account: address,
+        value: o.claimFee,
+      });
+      const hash = await walletClient.writeContract(request);
+      await publicClient.waitForTransactionReceipt({ hash });
+      markOrderClosed(chainId, address, o);
+      setStatus({ type: "success", message: "Order claimed." });
+      await refreshOrders();
+    } catch (e: any) {
+      console.error("claimOrder failed", e);
+      setStatus({
+        type: "error",
+        message: txErrorMessage(e, "Failed to claim order"),
+      });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const symbolOf = (addr: Address) =>
+    (addr && byAddr.get(addr.toLowerCase())?.symbol) || `${addr.slice(0, 6)}…`;
+
+  const disablePlace =
+    !address ||
+    !poolInfo ||
+    !order ||
+    order.error ||
+    amountWei === 0n ||
+    busy !== null;
+
+  return (
+    <div className="max-w-lg mx-auto rounded-2xl p-4 bg-neutral-900 shadow space-y-4">
+      <div className="text-xl font-semibold">Limit order</div>
+
+      <div className="bg-neutral-800 rounded-xl p-3 space-y-2">
+        <TokenInput label="Sell" value={sellToken} onChange={setSellToken} />
+        <input
+          className="w-full bg-neutral-900 p-2 rounded-lg"
+          placeholder="Amount"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+      </div>
+
+      <div className="bg-neutral-800 rounded-xl p-3">
+        <TokenInput label="Buy" value={buyToken} onChange={setBuyToken} />
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="opacity-70">Fee tier</span>
+        <div className="flex gap-1">
+          {FEE_TIERS.map((f) => (
+            <button
+              key={f}
+              type="button"
+              onClick={() => {
+                setFee(f);
+                if (rememberFeeTier) setSettings({ defaultFeeTier: f });
+              }}
+              className={[
+                "px-2 py-1 rounded-lg text-xs",
+                fee === f ? "bg-neutral-700" : "bg-neutral-800 opacity-70",
+              ].join(" ")}
+            >
+              {(f / 10000).toFixed(2)}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-neutral-800 rounded-xl p-3 space-y-1">
+        <div className="flex items-center justify-between text-xs opacity-70">
+          <span>
+            Target price ({tBuy?.symbol ?? "buy"} per {tSell?.symbol ?? "sell"})
+          </span>
+          {currentPrice !== null && (
+            <button
+              type="button"
+              className="underline"
+              onClick={() => setTargetPrice(currentPrice.toPrecision(6))}
+            >
+              Current: {currentPrice.toPrecision(6)}
+            </button>
+          )}
+        </div>
+        <input
+          className="w-full bg-neutral-900 p-2 rounded-lg"
+          placeholder="0.0"
+          value={targetPrice}
+          onChange={(e) => setTargetPrice(e.target.value)}
+        />
+        {order && order.error && (
+          <div className="text-xs text-amber-400">
+            Target must be above the current price: a limit sell fills once the
+            price rises past it.
+          </div>
+        )}
+        {order && !order.error && (
+          <div className="text-xs opacity-70">
+            Fills at ≈ {order.fillPrice.toPrecision(6)} (ticks {order.tickLower}{" "}
+            → {order.tickUpper})
+          </div>
+        )}
+      </div>
+
+      {poolErr && <div className="text-xs text-amber-400">{poolErr}</div>}
+
+      {status && (
+        <div
+          className={[
+            "text-xs text-center px-3 py-2 rounded-lg",
+            status.type === "error"
+              ? "bg-red-900/40 text-red-300"
+              : status.type === "success"
+              ? "bg-emerald-900/40 text-emerald-300"
+              : "bg-neutral-800 text-neutral-200",
+          ].join(" ")}
+        >
+          {status.message}
+        </div>
+      )}
+
+      <button className="btn w-full" onClick={onPlace} disabled={disablePlace}>
+        {busy === "place" ? "Placing…" : "Place limit order"}
+      </button>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="font-semibold text-sm">Your orders</div>
+          <button
+            type="button"
+            className="text-xs underline opacity-70"
+            onClick={refreshOrders}
+            disabled={loadingOrders}
+          >
+            {loadingOrders ? "Loading…" : "Refresh"}
+          </button>
+        </div>
+
+        {!address && (
+          <div className="text-xs opacity-60">
+            Connect a wallet to see orders.
+          </div>
+        )}
+        {address && !loadingOrders && orders.length === 0 && (
+          <div className="text-xs opacity-60">No open orders.</div>
+        )}
+
+        {orders.map((o) => {
+          const sell = o.direction ? o.token0 : o.token1;
+          const buy = o.direction ? o.token1 : o.token0;
+          const sellDec = sell
+            ? byAddr.get(sell.toLowerCase())?.decimals ?? 18
+            : 18;
+          return (
+            <div
+              key={orderKey(o)}
+              className="bg-neutral-800 rounded-xl p-3 text-xs space-y-1"
+            >
+              <div className="flex items-center justify-between">
+                <span>
+                  Sell{" "}
+                  {Number(formatUnits(BigInt(o.amount), sellDec)).toFixed(4)}{" "}
+                  {sell ? symbolOf(sell) : "?"} → {buy ? symbolOf(buy) : "?"}
+                </span>
+                <span
+                  className={
+                    o.status === "filled"
+                      ? "text-emerald-400"
+                      : o.status === "partial"
+                      ? "text-yellow-300"
+                      : "opacity-70"
+                  }
+                >
+                  {STATUS_LABEL[o.status]}
+                </span>
+              </div>
+              <div className="opacity-60">
+                Batch #{o.batchId} · ticks {o.tickLower} → {o.tickUpper}
+                {o.currentTick !== null && ` · current tick ${o.currentTick}`}
+              </div>
+              <div className="flex gap-2 justify-end">
+                {o.claimReady ? (
+                  <button
+                    type="button"
+                    className="btn"
+                    onClick={() => onClaim(o)}
+                    disabled={busy !== null}
+                  >
+                    {busy === `claim:${o.batchId}`
+                      ? "Claiming…"
+                      : `Claim${
+                          o.claimFee > 0n
+                            ? ` (fee ${formatUnits(o.claimFee, 18)} ETH)`
+                            : ""
+                        }`}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="btn"
+                    onClick={() => onCancel(o)}
+                    disabled={busy !== null || o.status === "filled"}
+                  >
+                    {busy === `cancel:${o.batchId}` ? "Cancelling…" : "Cancel"}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
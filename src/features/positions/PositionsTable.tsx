@@ -2,10 +2,12 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import type { Address } from "viem";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { UNI_V3_ADDRESSES } from "@/lib/addresses";
 import { useTokens } from "@/state/useTokens";
+import { txErrorMessage } from "@/lib/univ3/errors";
 
 const nfpmAbi = [
   {
@@ -86,6 +88,7 @@ export default function PositionsTable() {
   const [error, setError] = useState<string | null>(null);
   const [reload, setReload] = useState(0);
   const [collectingId, setCollectingId] = useState<string | null>(null);
+  const [collectErr, setCollectErr] = useState<string | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -176,6 +179,7 @@ export default function PositionsTable() {
 
   async function onCollect(row: PositionRow) {
     if (!walletClient || !address) return;
+    setCollectErr(null);
     try {
       setCollectingId(row.tokenId);
       const nfpm = (UNI_V3_ADDRESSES.positionManager ??
@@ -194,7 +198,7 @@ export default function PositionsTable() {
       setReload((x) => x + 1);
     } catch (e: any) {
       console.error("collect error", e);
-      // we can optionally set a UI error if you want
+      setCollectErr(txErrorMessage(e, "Collect failed"));
     } finally {
       setCollectingId(null);
     }
@@ -226,6 +230,9 @@ export default function PositionsTable() {
 
   return (
     <div className="overflow-x-auto text-sm">
+      {collectErr && (
+        <div className="mb-2 text-xs text-red-400">{collectErr}</div>
+      )}
       <table className="w-full border-collapse">
         <thead className="text-left opacity-70 border-b border-neutral-800">
           <tr>
@@ -279,7 +286,13 @@ export default function PositionsTable() {
                     <span className="opacity-80">owed1: {r.tokensOwed1}</span>
                   </div>
                 </td>
-                <td className="py-2 pr-2 text-right">
+                <td className="py-2 pr-2 text-right space-x-2">
+                  <Link
+                    href={`/add?tokenId=${r.tokenId}`}
+                    className="px-3 py-1 text-xs rounded bg-neutral-800 hover:bg-neutral-700"
+                  >
+                    Add more
+                  </Link>
                   <button
                     className="px-3 py-1 text-xs rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
                     onClick={() => onCollect(r)}
@@ -6,6 +6,8 @@ import type { Address } from "viem";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { UNI_V3_ADDRESSES } from "@/lib/addresses";
 import { useTokens } from "@/state/useTokens";
+import { useSettings, txDeadline } from "@/state/useSettings";
+import { txErrorMessage } from "@/lib/univ3/errors";
 
 const nfpmAbi = [
   // balanceOf(owner)
@@ -127,6 +129,7 @@ export default function RemoveLiquidityCard() {
   const client = usePublicClient();
   const { data: walletClient } = useWalletClient();
   const { byAddr } = useTokens();
+  const deadlineMin = useSettings((s) => s.deadlineMin);
 
   const [rows, setRows] = useState<PositionRow[]>([]);
   const [loading, setLoading] = useState(false);
@@ -239,7 +242,7 @@ export default function RemoveLiquidityCard() {
       });
       setTxMsg(`Collect tx sent: ${String(hash)}`);
     } catch (e: any) {
-      setTxErr(e?.shortMessage || e?.message || "Collect failed");
+      setTxErr(txErrorMessage(e, "Collect failed"));
     } finally {
       setTxPendingFor(null);
     }
@@ -271,10 +274,7 @@ export default function RemoveLiquidityCard() {
     try {
       setTxPendingFor(id.toString());
       const nfpm = UNI_V3_ADDRESSES.positionManager as Address;
-      const deadline = BigInt(
-        Math.floor(Date.now() / 1000) +
-          Number(process.env.NEXT_PUBLIC_TX_DEADLINE_MIN ?? 20) * 60
-      );
+      const deadline = txDeadline(deadlineMin);
 
       // 1) decreaseLiquidity
       await walletClient.writeContract({
@@ -338,7 +338,7 @@ export default function RemoveLiquidityCard() {
         // best-effort; ignore
       }
     } catch (e: any) {
-      setTxErr(e?.shortMessage || e?.message || "Remove liquidity failed");
+      setTxErr(txErrorMessage(e, "Remove liquidity failed"));
     } finally {
       setTxPendingFor(null);
     }
@@ -1,19 +1,86 @@
 "use client";
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { Address, Hex } from "viem";
-import {
-  parseUnits,
-  formatUnits,
-  encodeAbiParameters,
-  parseAbiParameters,
-} from "viem";
+import { parseUnits, formatUnits } from "viem";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 
 import TokenInput from "@/components/TokenInput";
 import SlippageControl from "@/components/SlippageControl";
+import TxPreview from "@/components/TxPreview";
+import RecipientField, { parseRecipient } from "@/components/RecipientField";
 import { useTokens } from "@/state/useTokens";
+import { useSettings, txDeadline } from "@/state/useSettings";
 import { useQuote } from "@/hooks/useQuote";
 import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import { isNativeToken } from "@/lib/tokens";
+import {
+  permit2Abi,
+  MAX_UINT160,
+  readPermit2Allowance,
+  isPermit2AllowanceValid,
+  buildPermitSingle,
+  signPermitSingle,
+  type PermitSingle,
+} from "@/lib/univ3/permit2";
+import {
+  universalRouterAbi,
+  buildSwapExecuteArgs,
+  buildSplitSwapExecuteArgs,
+  type TradeType,
+} from "@/lib/univ3/universalRouter";
+import {
+  findBestRoute,
+  tokenPerEth,
+  type GasPricing,
+} from "@/lib/univ3/routing";
+import {
+  readGasPrice,
+  readL1FeePerByte,
+  estimateSwapL1Fee,
+  estimateSplitGas,
+  weiToToken,
+  weiToUsd,
+  formatUsd,
+} from "@/lib/univ3/gasCost";
+import { txErrorMessage } from "@/lib/univ3/errors";
+import { approvalStateOverride } from "@/lib/univ3/allowanceOverride";
+import {
+  supportsAtomicBatch,
+  markBatchUnsupported,
+  isBatchUnsupported,
+  sendBatch,
+  waitForBatch,
+  type BatchCall,
+} from "@/lib/viem/batchCalls";
+import {
+  summarizeSwapReceipt,
+  type SwapReceiptSummary,
+} from "@/lib/univ3/receipt";
+import { explorerUrl } from "@/lib/chains/hemi";
+import { quoteExactInPath, quoteExactOutPath } from "@/lib/univ3/quotes";
+import { findBestSplit, type SplitPlan } from "@/lib/univ3/split";
+import {
+  readHopPrices,
+  computePriceImpact,
+  poolPriceShifts,
+  impactTier,
+  needsImpactConfirmation,
+  PRICE_IMPACT_CONFIRM_PCT,
+  type HopPrice,
+  type ImpactTier,
+} from "@/lib/univ3/priceImpact";
+import {
+  fetchPoolVolatility,
+  recommendSlippage,
+  type AutoSlippage,
+} from "@/lib/univ3/autoSlippage";
+import {
+  getTransferTax,
+  needsTransferFirst,
+  isTaxed,
+  afterTax,
+  type TransferTax,
+} from "@/lib/univ3/transferTax";
 
 const erc20Abi = [
   {
@@ -45,111 +112,57 @@ const erc20Abi = [
   },
 ] as const;
 
-const universalRouterAbi = [
-  {
-    type: "function",
-    name: "execute",
-    stateMutability: "payable",
-    inputs: [
-      { name: "commands", type: "bytes" },
-      { name: "inputs", type: "bytes[]" },
-      { name: "deadline", type: "uint256" },
-    ],
-    outputs: [],
-  },
-] as const;
-
-const permit2Abi = [
-  {
-    type: "function",
-    name: "allowance",
-    stateMutability: "view",
-    inputs: [
-      { name: "owner", type: "address" },
-      { name: "token", type: "address" },
-      { name: "spender", type: "address" },
-    ],
-    outputs: [
-      { name: "amount", type: "uint160" },
-      { name: "expiration", type: "uint48" },
-      { name: "nonce", type: "uint48" },
-    ],
-  },
-  {
-    type: "function",
-    name: "approve",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint160" },
-      { name: "expiration", type: "uint48" },
-    ],
-    outputs: [],
-  },
-] as const;
-
-const V3_SWAP_EXACT_IN = "0x00" as const;
-
-// Multi-hop capable path encoder: tokens[0..n], fees[0..n-1]
-function encodeV3Path(tokens: Address[], fees: number[]): Hex {
-  if (tokens.length < 2 || fees.length !== tokens.length - 1) {
-    throw new Error("Invalid V3 path: token/fee length mismatch");
-  }
-
-  let path = tokens[0].slice(2);
-  for (let i = 0; i < fees.length; i++) {
-    const feeHex = fees[i].toString(16).padStart(6, "0");
-    path += feeHex + tokens[i + 1].slice(2);
-  }
-
-  return `0x${path}` as Hex;
-}
-
 type Route = {
   tokens: Address[];
   fees: number[];
-  viaWeth: boolean;
+  pools: Address[];
 };
 
-const FEE_CANDIDATES = [500, 3000, 10000] as const;
-
-const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as Address;
-// Canonical tokens from the Oku list that we want hidden *only* in Swap selectors.
-// Keep these loaded elsewhere (e.g., Pools page).
-const HIDDEN_SWAP_TOKENS: Address[] = [
-  "0x6b8f39d1bda75523f12ca527c4260ecc4889d547", // WBTC
-  "0x3026b071a730261b5c7735dcb83e787e1f55e414", // WETH
-  "0xd4348d0219cbf881a28fe1a17e0074388ca0baf6", // USDT
-  "0x6ae74e2cf82e830b27fea31f145e20df1860a2e5", // USDC
-  "0x63b75d4e00c9c518b0310b78ff6f83aa67e531cd", // WBTC.b
-  "0x0499af58073c78074a6ebb5943501d9cafe62570", // WETH.b
-  "0x4c9c2f5563f7b6d4f0cc99b6fa5d3d9d99c1e57b", // USDC.b
-  "0xf2b060feca9f9cb6f201f79fc12e4c5f5f6d50a5", // USDT.b
-].map((a) => a.toLowerCase() as Address);
-const factoryAbi = [
-  {
-    type: "function",
-    name: "getPool",
-    stateMutability: "view",
-    inputs: [
-      { name: "tokenA", type: "address" },
-      { name: "tokenB", type: "address" },
-      { name: "fee", type: "uint24" },
-    ],
-    outputs: [{ name: "pool", type: "address" }],
-  },
-] as const;
+// A sent swap: what was quoted at send time, then the decoded receipt once mined
+type SwapResult = {
+  hash: Hex;
+  recipient: Address;
+  quoted: {
+    tradeType: TradeType;
+    amountIn: bigint;
+    amountOut: bigint;
+    decIn: number;
+    decOut: number;
+    symbolIn: string;
+    symbolOut: string;
+  };
+  summary: SwapReceiptSummary | null;
+};
 
-const poolAbi = [
-  {
-    type: "function",
-    name: "liquidity",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "liquidity", type: "uint128" }],
-  },
-] as const;
+const IMPACT_TIER_CLASS: Record<ImpactTier, string> = {
+  low: "text-emerald-400",
+  medium: "text-yellow-300",
+  high: "text-orange-400",
+  severe: "text-red-400",
+};
+
+// "2.50%", "rebasing", or "taxed (amount unknown)" when only a token list tag
+// says so; null for tokens that behave normally
+function taxLabel(tax: TransferTax | null, bps: number | null | undefined) {
+  if (!tax) return null;
+  const parts = [];
+  if (bps) parts.push(`${(bps / 100).toFixed(2)}%`);
+  else if (tax.source === "tag" && !tax.rebasing) {
+    parts.push("taxed (amount unknown)");
+  }
+  if (tax.rebasing) parts.push("rebasing");
+  return parts.length ? parts.join(", ") : null;
+}
+
+// Wallet "reject" (EIP-1193 code 4001), as opposed to an unsupported method
+function isUserRejection(err: any) {
+  return (
+    err?.code === 4001 ||
+    err?.cause?.code === 4001 ||
+    err?.name === "UserRejectedRequestError" ||
+    err?.cause?.name === "UserRejectedRequestError"
+  );
+}
 
 type SwapCardProps = {
   initialTokenIn?: Address;
@@ -170,31 +183,60 @@ export default function SwapCard({
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
   const { tokens, byAddr } = useTokens();
+  const {
+    slippageBps: defaultSlippageBps,
+    slippageAuto: defaultSlippageAuto,
+    deadlineMin,
+    approvalAmount,
+    permit2Mode: approvalMode,
+    expertMode,
+    defaultFeeTier,
+    hiddenTokens,
+    set: setSettings,
+  } = useSettings();
 
   // form state (seeded from URL props when provided)
   const [tokenIn, setTokenIn] = useState<Address | undefined>(initialTokenIn);
   const [tokenOut, setTokenOut] = useState<Address | undefined>(
     initialTokenOut
   );
-  const [fee, setFee] = useState(
-    Number.isFinite(initialFee) ? (initialFee as number) : 3000
+  // Settings defaults apply until the card picks its own (null = follow the store)
+  const [feeOverride, setFee] = useState<number | null>(
+    Number.isFinite(initialFee) ? (initialFee as number) : null
   );
+  const fee = feeOverride ?? defaultFeeTier;
   const [amountIn, setAmountIn] = useState(
     typeof initialAmountIn === "string" && initialAmountIn.trim() !== ""
       ? initialAmountIn
       : "0.10"
   );
+  // Which side the user typed: exactIn quotes the output, exactOut the input
+  const [tradeType, setTradeType] = useState<TradeType>("exactIn");
+  const [amountOutInput, setAmountOutInput] = useState("");
 
   // If fee came from URL, don't auto-override it during route finding.
   const feeLockedFromUrl = useRef(Number.isFinite(initialFee));
   const didInitFromUrl = useRef(false);
-  const [slippageBps, setSlippageBps] = useState(
-    Number(process.env.NEXT_PUBLIC_DEFAULT_SLIPPAGE_BPS ?? 50)
+  const [slippageOverride, setSlippageBps] = useState<number | null>(null);
+  const [slippageAutoOverride, setSlippageAuto] = useState<boolean | null>(
+    null
   );
+  const slippageBps = slippageOverride ?? defaultSlippageBps;
+  const slippageAuto = slippageAutoOverride ?? defaultSlippageAuto;
+  // Recommended tolerance for the current route (auto mode); see effect below
+  const [autoSlippage, setAutoSlippage] = useState<AutoSlippage | null>(null);
+  const effectiveSlippageBps =
+    slippageAuto && autoSlippage ? autoSlippage.bps : slippageBps;
 
   // routing / pool state
   const [poolErr, setPoolErr] = useState<string | null>(null);
   const [route, setRoute] = useState<Route | null>(null);
+  // exactIn only: allocation across several routes, for the amount it was built for
+  const [split, setSplit] = useState<{
+    plan: SplitPlan;
+    amountIn: bigint;
+    gasUnits: bigint;
+  } | null>(null);
   const [routing, setRouting] = useState(false);
 
   // balance state for tokenIn
@@ -202,15 +244,29 @@ export default function SwapCard({
 
   // approval / permit2 state
   const [hasAllowance, setHasAllowance] = useState(false);
+  const [needsPermitSignature, setNeedsPermitSignature] = useState(false);
+  const signedPermitRef = useRef<{
+    permit: PermitSingle;
+    signature: Hex;
+  } | null>(null);
   const [checkingAllowance, setCheckingAllowance] = useState(false);
   const [approving, setApproving] = useState(false);
+  // EIP-5792 wallets take the approvals and the swap as one atomic batch
+  const [canBatch, setCanBatch] = useState(false);
 
   // simulation preview state
   const [lastSimulation, setLastSimulation] = useState<{
     gasEstimate?: bigint;
     value?: bigint;
+    // run with state-overridden allowances, before approving
+    assumedApproval?: boolean;
   } | null>(null);
   const [simulatingPreview, setSimulatingPreview] = useState(false);
+  // "Swap and send": output goes to another address when set
+  const [sendOpen, setSendOpen] = useState(false);
+  const [sendTo, setSendTo] = useState("");
+  const [recipientConfirmed, setRecipientConfirmed] = useState(false);
+  const [swapResult, setSwapResult] = useState<SwapResult | null>(null);
   const [status, setStatus] = useState<{
     type: "info" | "error" | "success";
     message: string;
@@ -220,6 +276,17 @@ export default function SwapCard({
   const tIn = tokenIn ? byAddr.get(tokenIn.toLowerCase()) : undefined;
   const tOut = tokenOut ? byAddr.get(tokenOut.toLowerCase()) : undefined;
 
+  // Where the output goes: the connected wallet unless "Swap and send" names
+  // another address, which has to be confirmed before swapping
+  const parsedRecipient = parseRecipient(sendOpen ? sendTo : "");
+  const recipient = (parsedRecipient.address ?? address) as Address | undefined;
+  const customRecipient =
+    !!parsedRecipient.address &&
+    !!address &&
+    parsedRecipient.address.toLowerCase() !== address.toLowerCase();
+  const recipientBlocked =
+    !!parsedRecipient.error || (customRecipient && !recipientConfirmed);
+
   const wethToken = useMemo(
     () =>
       tokens.find((t) => t.symbol.toLowerCase() === "weth") ??
@@ -282,7 +349,7 @@ export default function SwapCard({
     }
   }, [tokens, tokenIn, tokenOut]);
 
-  // 2) amountIn in wei
+  // 2) amountIn in wei (user-entered side only; see requiredInWei for exactOut)
   const amountInWei = useMemo<bigint>(() => {
     try {
       return parseUnits(amountIn || "0", tIn?.decimals ?? 18);
@@ -291,168 +358,149 @@ export default function SwapCard({
     }
   }, [amountIn, tIn?.decimals]);
 
-  // 3) Route finding: choose best fee by on-chain liquidity (direct, then via WETH)
+  const amountOutWei = useMemo<bigint>(() => {
+    try {
+      return parseUnits(amountOutInput || "0", tOut?.decimals ?? 18);
+    } catch {
+      return 0n;
+    }
+  }, [amountOutInput, tOut?.decimals]);
+
+  // Native ETH routes and quotes as WETH; the router wraps/unwraps around the swap
+  const nativeIn = isNativeToken(tokenIn);
+  const nativeOut = isNativeToken(tokenOut);
+  const routeTokenIn = nativeIn ? (UNI_V3_ADDRESSES.weth as Address) : tokenIn;
+  const routeTokenOut = nativeOut
+    ? (UNI_V3_ADDRESSES.weth as Address)
+    : tokenOut;
+
+  // Amount on the side the user typed; routes are ranked by their quote for it
+  const routeAmountWei = tradeType === "exactIn" ? amountInWei : amountOutWei;
+
+  // Well-paired tokens used to probe routes on-chain when /api/pools is down
+  const hubTokens = useMemo(() => {
+    const wanted = ["usdc.e", "hemibtc"];
+    const hubs = tokens
+      .filter((t) => wanted.includes(t.symbol.toLowerCase()))
+      .map((t) => t.address as Address);
+    return wethAddress ? [wethAddress, ...hubs] : hubs;
+  }, [tokens, wethAddress]);
+
+  const routePairRef = useRef<string | null>(null);
+
+  // 3) Route finding: search discovered pools (up to 3 hops, all fee tiers)
+  //    and keep the route with the best quote for the current amount
   useEffect(() => {
     let active = true;
 
-    async function findRoute() {
-      setPoolErr(null);
+    const pairKey =
+      routeTokenIn && routeTokenOut
+        ? `${routeTokenIn}-${routeTokenOut}`.toLowerCase()
+        : null;
+    // Keep showing the previous route while re-searching the same pair
+    if (routePairRef.current !== pairKey) {
+      routePairRef.current = pairKey;
       setRoute(null);
+      setSplit(null);
       setStatus(null);
+    }
 
-      if (!publicClient || !tokenIn || !tokenOut || tokenIn === tokenOut) {
-        return;
-      }
-
-      const factory = UNI_V3_ADDRESSES.factory as Address;
-
-      // Helper: pick the best direct pool by liquidity
-      const getBestDirectPool = async () => {
-        let bestFee: number | null = null;
-        let bestLiquidity: bigint = 0n;
-
-        for (const feeCandidate of FEE_CANDIDATES) {
-          try {
-            const [tokenA, tokenB] =
-              tokenIn.toLowerCase() < tokenOut.toLowerCase()
-                ? [tokenIn, tokenOut]
-                : [tokenOut, tokenIn];
-
-            const poolAddr = (await publicClient.readContract({
-              address: factory,
-              abi: factoryAbi,
-              functionName: "getPool",
-              args: [tokenA, tokenB, feeCandidate],
-            })) as Address;
-
-            if (!poolAddr || poolAddr === ZERO_ADDRESS) continue;
-
-            const liquidity = (await publicClient.readContract({
-              address: poolAddr,
-              abi: poolAbi,
-              functionName: "liquidity",
-            })) as bigint;
-
-            if (liquidity > bestLiquidity) {
-              bestLiquidity = liquidity;
-              bestFee = feeCandidate;
-            }
-          } catch {
-            // ignore and try next fee
-          }
-        }
-
-        if (bestFee === null || bestLiquidity === 0n) return null;
-        return { bestFee, bestLiquidity };
-      };
-
-      // Helper: pick best via-WETH route (same fee on both hops)
-      const getBestViaWethRoute = async () => {
-        if (
-          !wethAddress ||
-          tokenIn === wethAddress ||
-          tokenOut === wethAddress
-        ) {
-          return null;
-        }
-
-        let bestFee: number | null = null;
-        let bestLiquidity: bigint = 0n;
-
-        for (const feeCandidate of FEE_CANDIDATES) {
-          try {
-            const [a0, a1] =
-              tokenIn.toLowerCase() < wethAddress.toLowerCase()
-                ? [tokenIn, wethAddress]
-                : [wethAddress, tokenIn];
-            const [b0, b1] =
-              wethAddress.toLowerCase() < tokenOut.toLowerCase()
-                ? [wethAddress, tokenOut]
-                : [tokenOut, wethAddress];
-
-            const pool1 = (await publicClient.readContract({
-              address: factory,
-              abi: factoryAbi,
-              functionName: "getPool",
-              args: [a0, a1, feeCandidate],
-            })) as Address;
-            const pool2 = (await publicClient.readContract({
-              address: factory,
-              abi: factoryAbi,
-              functionName: "getPool",
-              args: [b0, b1, feeCandidate],
-            })) as Address;
-
-            if (
-              !pool1 ||
-              pool1 === ZERO_ADDRESS ||
-              !pool2 ||
-              pool2 === ZERO_ADDRESS
-            ) {
-              continue;
-            }
+    async function findRoute() {
+      setPoolErr(null);
 
-            const [liq1, liq2] = (await Promise.all([
-              publicClient.readContract({
-                address: pool1,
-                abi: poolAbi,
-                functionName: "liquidity",
-              }) as Promise<bigint>,
-              publicClient.readContract({
-                address: pool2,
-                abi: poolAbi,
-                functionName: "liquidity",
-              }) as Promise<bigint>,
-            ])) as [bigint, bigint];
-
-            const combined = liq1 < liq2 ? liq1 : liq2; // bottleneck liquidity
-
-            if (combined > bestLiquidity) {
-              bestLiquidity = combined;
-              bestFee = feeCandidate;
-            }
-          } catch {
-            // ignore and try next fee
-          }
+      if (!publicClient || !routeTokenIn || !routeTokenOut) return;
+      if (routeTokenIn.toLowerCase() === routeTokenOut.toLowerCase()) {
+        setRoute(null);
+        setSplit(null);
+        if (nativeIn || nativeOut) {
+          setPoolErr("ETH ↔ WETH is a wrap/unwrap, not a swap.");
         }
-
-        if (bestFee === null || bestLiquidity === 0n) return null;
-        return { bestFee, bestLiquidity, weth: wethAddress as Address };
-      };
+        return;
+      }
 
       try {
         setRouting(true);
 
-        // 1. Try best direct pool by liquidity
-        const direct = await getBestDirectPool();
+        // Gas priced in the token the routes compete on, so they're ranked
+        // net of what each costs to execute
+        const rankToken =
+          tradeType === "exactIn" ? routeTokenOut : routeTokenIn;
+        const [gasPrice, l1FeePerByte, perEth] = await Promise.all([
+          readGasPrice(publicClient).catch(() => null),
+          readL1FeePerByte(publicClient),
+          tokenPerEth(publicClient, {
+            token: rankToken,
+            weth: UNI_V3_ADDRESSES.weth as Address,
+            hubs: hubTokens,
+          }),
+        ]);
+        const gasPricing: GasPricing | null =
+          gasPrice !== null && perEth !== null
+            ? { gasPrice, l1FeePerByte, tokenPerEth: perEth }
+            : null;
+
+        const found = await findBestRoute(publicClient, {
+          tokenIn: routeTokenIn,
+          tokenOut: routeTokenOut,
+          tradeType,
+          amount: routeAmountWei,
+          hubs: hubTokens,
+          gasPricing,
+        });
         if (!active) return;
 
-        if (direct) {
-          setRoute({
-            tokens: [tokenIn, tokenOut],
-            fees: [direct.bestFee],
-            viaWeth: false,
-          });
-          if (!feeLockedFromUrl.current) setFee(direct.bestFee);
+        if (!found) {
+          setRoute(null);
+          setSplit(null);
+          setPoolErr("No route found for this pair (up to 3 hops).");
           return;
         }
 
-        // 2. Fallback to best via-WETH route
-        const viaWeth = await getBestViaWethRoute();
-        if (!active) return;
+        setRoute({
+          tokens: found.best.tokens,
+          fees: found.best.fees,
+          pools: found.best.pools,
+        });
+        if (!feeLockedFromUrl.current) setFee(found.best.fees[0]);
 
-        if (viaWeth) {
-          setRoute({
-            tokens: [tokenIn, viaWeth.weth, tokenOut],
-            fees: [viaWeth.bestFee, viaWeth.bestFee],
-            viaWeth: true,
-          });
-          if (!feeLockedFromUrl.current) setFee(viaWeth.bestFee);
+        // Larger trades may do better spread over several pools
+        if (tradeType !== "exactIn" || found.quoted.length < 2) {
+          setSplit(null);
           return;
         }
-
-        // 3. No route at our supported fee tiers
-        setPoolErr("No route found for this pair at supported fee tiers.");
+        const plan = await findBestSplit(
+          publicClient,
+          found.quoted,
+          routeAmountWei
+        );
+        if (!active) return;
+        if (!plan || plan.legs.length < 2) {
+          setSplit(null);
+          return;
+        }
+        // Every extra leg is another pool swap to pay for
+        const single = found.quoted[0];
+        const splitGas = estimateSplitGas(
+          plan.legs.map(
+            (l) => found.quoted.find((q) => q === l.route)?.gasUnits ?? 0n
+          )
+        );
+        const splitGasCost = gasPricing
+          ? weiToToken(
+              splitGas * gasPricing.gasPrice +
+                estimateSwapL1Fee(
+                  gasPricing.l1FeePerByte,
+                  plan.legs.map((l) => l.route.pools.length)
+                ),
+              gasPricing.tokenPerEth
+            )
+          : 0n;
+        const singleNet = single.quote.amountOut - (single.gasCost ?? 0n);
+        setSplit(
+          plan.amountOut - splitGasCost > singleNet
+            ? { plan, amountIn: routeAmountWei, gasUnits: splitGas }
+            : null
+        );
       } catch (e: any) {
         if (!active) return;
         console.error("Routing error", e);
@@ -462,36 +510,388 @@ export default function SwapCard({
       }
     }
 
-    findRoute();
+    // Debounce so typing an amount doesn't fire a quote per keystroke
+    const timer = setTimeout(findRoute, 350);
 
     return () => {
       active = false;
+      clearTimeout(timer);
     };
-  }, [publicClient, tokenIn, tokenOut, wethAddress]);
+  }, [
+    publicClient,
+    routeTokenIn,
+    routeTokenOut,
+    routeAmountWei,
+    tradeType,
+    hubTokens,
+    nativeIn,
+    nativeOut,
+  ]);
+
+  // 3b) Transfer tax of each traded token, measured on the pool it trades
+  //     through (first pool for tokenIn, last for tokenOut)
+  const [taxIn, setTaxIn] = useState<TransferTax | null>(null);
+  const [taxOut, setTaxOut] = useState<TransferTax | null>(null);
+  const firstPool = route?.pools[0];
+  const lastPool = route?.pools[route.pools.length - 1];
+
+  useEffect(() => {
+    let active = true;
+    setTaxIn(null);
+    setTaxOut(null);
+    if (!publicClient || !firstPool || !lastPool) return;
+    if (!routeTokenIn || !routeTokenOut) return;
+
+    (async () => {
+      const [inTax, outTax] = await Promise.all([
+        nativeIn
+          ? null
+          : getTransferTax(publicClient, {
+              token: routeTokenIn,
+              meta: tIn,
+              pool: firstPool,
+              account: address as Address | undefined,
+            }),
+        nativeOut
+          ? null
+          : getTransferTax(publicClient, {
+              token: routeTokenOut,
+              meta: tOut,
+              pool: lastPool,
+              account: address as Address | undefined,
+            }),
+      ]);
+      if (!active) return;
+      setTaxIn(inTax);
+      setTaxOut(outTax);
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [
+    publicClient,
+    firstPool,
+    lastPool,
+    routeTokenIn,
+    routeTokenOut,
+    nativeIn,
+    nativeOut,
+    tIn,
+    tOut,
+    address,
+  ]);
+
+  const taxedTrade = isTaxed(taxIn) || isTaxed(taxOut);
+  const transferFirst = tradeType === "exactIn" && needsTransferFirst(taxIn);
+  // Cases the V3 pools / router can't execute for these tokens
+  const fotError = useMemo(() => {
+    if ((taxIn?.poolInBps ?? 0) > 0) {
+      return `${
+        tIn?.symbol ?? "This token"
+      } charges a tax when sent to the pool, which Uniswap V3 pools reject.`;
+    }
+    if (
+      tradeType === "exactOut" &&
+      (taxedTrade || taxIn?.rebasing || taxOut?.rebasing)
+    ) {
+      return "Fee-on-transfer and rebasing tokens can only be swapped with an exact input amount.";
+    }
+    return null;
+  }, [taxIn, taxOut, taxedTrade, tradeType, tIn?.symbol]);
+
+  const taxSummary = useMemo(() => {
+    const inLabel = taxLabel(taxIn, taxIn?.sellBps);
+    const outLabel = taxLabel(taxOut, taxOut?.buyBps);
+    const parts = [
+      inLabel && `${tIn?.symbol ?? "Input"} ${inLabel}`,
+      outLabel && `${tOut?.symbol ?? "Output"} ${outLabel}`,
+    ].filter(Boolean);
+    return parts.length ? parts.join(" · ") : null;
+  }, [taxIn, taxOut, tIn?.symbol, tOut?.symbol]);
 
   // 4) Quote using the resolved route
-  const effectiveTokenIn = tokenIn;
+  const effectiveTokenIn = routeTokenIn;
   const effectiveTokenOut = useMemo(
-    () => (route ? route.tokens[route.tokens.length - 1] : tokenOut),
-    [route, tokenOut]
+    () => (route ? route.tokens[route.tokens.length - 1] : routeTokenOut),
+    [route, routeTokenOut]
   );
 
   const {
-    amountOut,
-    minOut,
+    amountOut: singleAmountOut,
+    amountIn: quotedAmountIn,
+    minOut: singleMinOut,
+    maxIn,
+    sqrtPriceX96AfterList,
+    gasUnits: quoteGasUnits,
+    source: quoteSource,
     loading: quoting,
     error: quoteErr,
   } = useQuote({
     tokenIn: effectiveTokenIn,
     tokenOut: effectiveTokenOut,
-    amountInHuman: amountIn,
+    // Only the side the user typed drives the quote
+    amountInHuman: tradeType === "exactIn" ? amountIn : "",
+    amountOutHuman: tradeType === "exactOut" ? amountOutInput : "",
+    tradeType,
     fee,
-    slippageBps,
-    // These may be ignored by current useQuote until you wire it up.
+    slippageBps: effectiveSlippageBps,
     pathTokens: route?.tokens,
     pathFees: route?.fees,
+    pathPools: route?.pools,
+    inputTaxBps: transferFirst ? taxIn?.sellBps : null,
   });
 
+  // A split only applies to the exact input it was computed for (and never
+  // to taxed tokens, which need the single transfer-first route)
+  const activeSplit =
+    tradeType === "exactIn" &&
+    split &&
+    split.amountIn === amountInWei &&
+    !taxedTrade &&
+    !taxIn?.rebasing
+      ? split.plan
+      : null;
+  const amountOut = activeSplit ? activeSplit.amountOut : singleAmountOut;
+  const minOut = activeSplit
+    ? activeSplit.amountOut -
+      (activeSplit.amountOut * BigInt(effectiveSlippageBps)) / 10_000n
+    : singleMinOut;
+  // What actually lands in the wallet once the output token takes its cut; the
+  // router's own minimum stays pre-tax since it checks the pool's output
+  const receivedOut =
+    amountOut === null ? null : afterTax(amountOut, taxOut?.buyBps);
+  const receivedMin = afterTax(minOut ?? 0n, taxOut?.buyBps);
+
+  // Network cost in USD: L2 gas at today's price plus the L1 data fee, ETH
+  // priced on its best route to a USD stablecoin
+  const usdToken = useMemo(() => {
+    for (const sym of ["usdc.e", "usdc", "usdt"]) {
+      const t = tokens.find((x) => x.symbol.toLowerCase() === sym);
+      if (t) return t;
+    }
+    return undefined;
+  }, [tokens]);
+  const [gasPrice, setGasPrice] = useState<bigint | null>(null);
+  const [l1FeePerByte, setL1FeePerByte] = useState<bigint | null>(null);
+  const [ethUsd, setEthUsd] = useState<number | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    if (!publicClient || !route) return;
+
+    (async () => {
+      const [price, l1PerByte, perEth] = await Promise.all([
+        readGasPrice(publicClient).catch(() => null),
+        readL1FeePerByte(publicClient),
+        usdToken
+          ? tokenPerEth(publicClient, {
+              token: usdToken.address as Address,
+              weth: UNI_V3_ADDRESSES.weth as Address,
+              hubs: hubTokens,
+            })
+          : null,
+      ]);
+      if (!active) return;
+      setGasPrice(price);
+      setL1FeePerByte(l1PerByte);
+      setEthUsd(
+        perEth !== null && usdToken
+          ? Number(formatUnits(perEth, usdToken.decimals ?? 6))
+          : null
+      );
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [publicClient, route, usdToken, hubTokens]);
+
+  const tradeGasUnits = activeSplit ? split?.gasUnits ?? null : quoteGasUnits;
+  const tradeL1Fee = estimateSwapL1Fee(
+    l1FeePerByte,
+    activeSplit
+      ? activeSplit.legs.map((l) => l.route.pools.length)
+      : [route?.pools.length ?? 1]
+  );
+  const gasUsd = (units: bigint | null | undefined) =>
+    units && gasPrice !== null && ethUsd !== null
+      ? weiToUsd(units * gasPrice + tradeL1Fee, ethUsd)
+      : null;
+  const networkCostUsd = gasUsd(tradeGasUnits);
+
+  const splitLabel = useMemo(() => {
+    if (!activeSplit) return null;
+    return activeSplit.legs
+      .map(({ route: r, percent }) => {
+        const via = r.tokens
+          .slice(1, -1)
+          .map(
+            (a) => byAddr.get(a.toLowerCase())?.symbol ?? `${a.slice(0, 6)}…`
+          );
+        const fees = r.fees.map((f) => `${f / 10000}%`).join("/");
+        return `${percent}% via ${[...via, fees].join(" ")}`;
+      })
+      .join(", ");
+  }, [activeSplit, byAddr]);
+
+  // Pre-trade pool prices for every hop of the executed route(s), re-read with
+  // each new quote so impact compares like with like
+  const [hopPrices, setHopPrices] = useState<HopPrice[][] | null>(null);
+  const [impactConfirmText, setImpactConfirmText] = useState("");
+
+  useEffect(() => {
+    let active = true;
+    setHopPrices(null);
+    if (!publicClient || !route || !amountOut) return;
+
+    const routes = activeSplit ? activeSplit.legs.map((l) => l.route) : [route];
+    Promise.all(routes.map((r) => readHopPrices(publicClient, r)))
+      .then((prices) => {
+        if (active) setHopPrices(prices);
+      })
+      .catch((e) => console.warn("[SwapCard] slot0 read failed", e));
+
+    return () => {
+      active = false;
+    };
+  }, [publicClient, route, activeSplit, amountOut, quotedAmountIn]);
+
+  const priceImpact = useMemo(() => {
+    if (!hopPrices || !amountOut || !quotedAmountIn) return null;
+    const legs = activeSplit
+      ? activeSplit.legs.map((l, i) => ({
+          amountIn: l.amountIn,
+          hops: hopPrices[i] ?? [],
+        }))
+      : [
+          {
+            // the pools only see what's left after the token's sell tax
+            amountIn: transferFirst
+              ? afterTax(quotedAmountIn, taxIn?.sellBps)
+              : quotedAmountIn,
+            hops: hopPrices[0] ?? [],
+          },
+        ];
+    if (legs.some((l) => !l.hops.length)) return null;
+    return computePriceImpact({ legs, amountOut });
+  }, [
+    hopPrices,
+    activeSplit,
+    amountOut,
+    quotedAmountIn,
+    transferFirst,
+    taxIn?.sellBps,
+  ]);
+
+  // Per-pool price move reported by the quoter (single route only)
+  const poolShifts = useMemo(() => {
+    if (activeSplit || !hopPrices?.[0] || !sqrtPriceX96AfterList) return null;
+    return poolPriceShifts(hopPrices[0], sqrtPriceX96AfterList);
+  }, [activeSplit, hopPrices, sqrtPriceX96AfterList]);
+
+  // Recent volatility of every pool the trade touches, for auto slippage
+  const [poolVolatility, setPoolVolatility] = useState<
+    Map<string, number | null>
+  >(new Map());
+
+  const tradePools = useMemo(() => {
+    const routes = activeSplit ? activeSplit.legs.map((l) => l.route) : [route];
+    return routes.flatMap((r) =>
+      r ? r.pools.map((pool, i) => ({ pool, fee: r.fees[i] })) : []
+    );
+  }, [activeSplit, route]);
+
+  useEffect(() => {
+    let active = true;
+    if (!slippageAuto || !tradePools.length) return;
+    Promise.all(
+      tradePools.map(
+        async ({ pool }) =>
+          [pool.toLowerCase(), await fetchPoolVolatility(pool)] as const
+      )
+    ).then((entries) => {
+      if (active) setPoolVolatility(new Map(entries));
+    });
+    return () => {
+      active = false;
+    };
+  }, [slippageAuto, tradePools]);
+
+  useEffect(() => {
+    if (!route || !tradePools.length) {
+      setAutoSlippage(null);
+      return;
+    }
+    const hops = activeSplit
+      ? Math.max(...activeSplit.legs.map((l) => l.route.pools.length))
+      : route.pools.length;
+    setAutoSlippage(
+      recommendSlippage({
+        hops,
+        fees: tradePools.map((p) => p.fee),
+        volatilityPct: tradePools.map(
+          (p) => poolVolatility.get(p.pool.toLowerCase()) ?? null
+        ),
+        priceImpactPct: priceImpact,
+      })
+    );
+  }, [route, activeSplit, tradePools, poolVolatility, priceImpact]);
+
+  // Expert mode trusts the user with high-impact trades
+  const impactNeedsConfirm =
+    !expertMode && needsImpactConfirmation(priceImpact);
+  const impactConfirmed =
+    !impactNeedsConfirm || impactConfirmText.trim().toLowerCase() === "confirm";
+
+  // A typed confirmation only counts for the trade it was typed for: any
+  // change of tokens, typed amount, trade type or path clears it
+  const impactTradeKey = [
+    tokenIn,
+    tokenOut,
+    tradeType,
+    tradeType === "exactIn" ? amountIn : amountOutInput,
+    route ? `${route.tokens.join(",")}|${route.fees.join(",")}` : "",
+    activeSplit
+      ? activeSplit.legs
+          .map((l) => `${l.route.pools.join(",")}:${l.percent}`)
+          .join(";")
+      : "",
+  ].join("/");
+
+  useEffect(() => {
+    setImpactConfirmText("");
+  }, [impactTradeKey]);
+
+  useEffect(() => {
+    if (!impactNeedsConfirm) setImpactConfirmText("");
+  }, [impactNeedsConfirm]);
+
+  // Amount the router may pull from the user: exact input, or max input after slippage
+  const requiredInWei = tradeType === "exactIn" ? amountInWei : maxIn;
+
+  // Mirror the quoted side back into the opposite input field
+  useEffect(() => {
+    if (tradeType === "exactOut") {
+      if (quotedAmountIn === null || !tIn) return;
+      setAmountIn(
+        Number(formatUnits(quotedAmountIn, tIn.decimals ?? 18))
+          .toFixed(6)
+          .replace(/\.?0+$/, "")
+      );
+    } else {
+      if (receivedOut === null || !tOut) {
+        setAmountOutInput("");
+        return;
+      }
+      setAmountOutInput(
+        Number(formatUnits(receivedOut, tOut.decimals ?? 18))
+          .toFixed(6)
+          .replace(/\.?0+$/, "")
+      );
+    }
+  }, [tradeType, quotedAmountIn, receivedOut, tIn, tOut]);
+
   // 5) fetch tokenIn balance
   useEffect(() => {
     let active = true;
@@ -501,12 +901,14 @@ export default function SwapCard({
         return;
       }
       try {
-        const bal = (await publicClient.readContract({
-          address: tokenIn,
-          abi: erc20Abi,
-          functionName: "balanceOf",
-          args: [address as Address],
-        })) as bigint;
+        const bal = isNativeToken(tokenIn)
+          ? await publicClient.getBalance({ address: address as Address })
+          : ((await publicClient.readContract({
+              address: tokenIn,
+              abi: erc20Abi,
+              functionName: "balanceOf",
+              args: [address as Address],
+            })) as bigint);
         if (active) setBalanceIn(bal);
       } catch {
         if (active) setBalanceIn(null);
@@ -531,10 +933,10 @@ export default function SwapCard({
   const priceInfo = useMemo(() => {
     if (!amountOut || amountOut === 0n) return null;
     if (!tIn || !tOut) return null;
-    if (amountInWei === 0n) return null;
+    if (!quotedAmountIn || quotedAmountIn === 0n) return null;
 
     try {
-      const inFloat = Number(formatUnits(amountInWei, tIn.decimals ?? 18));
+      const inFloat = Number(formatUnits(quotedAmountIn, tIn.decimals ?? 18));
       const outFloat = Number(formatUnits(amountOut, tOut.decimals ?? 18));
       if (!isFinite(inFloat) || !isFinite(outFloat)) return null;
       if (inFloat === 0 || outFloat === 0) return null;
@@ -546,7 +948,7 @@ export default function SwapCard({
     } catch {
       return null;
     }
-  }, [amountOut, amountInWei, tIn, tOut]);
+  }, [amountOut, quotedAmountIn, tIn, tOut]);
 
   const canUseMax = balanceIn !== null && balanceIn > 0n && !!tIn;
 
@@ -555,6 +957,7 @@ export default function SwapCard({
     const dec = tIn.decimals ?? 18;
     const ninetyNinePercent = (balanceIn! * 99n) / 100n;
     const human = Number(formatUnits(ninetyNinePercent, dec));
+    setTradeType("exactIn");
     setAmountIn(human.toFixed(6).replace(/\.?0+$/, ""));
   }
 
@@ -562,50 +965,60 @@ export default function SwapCard({
     if (!tokenIn || !tokenOut) return;
     setTokenIn(tokenOut);
     setTokenOut(tokenIn);
+    // Keep the typed number on the side it now belongs to
+    if (tradeType === "exactIn") {
+      setTradeType("exactOut");
+      setAmountOutInput(amountIn);
+    } else {
+      setTradeType("exactIn");
+      setAmountIn(amountOutInput);
+    }
   }
 
   // --- Allowance helpers (ERC20 + Permit2 internal) ---
 
+  const routerAddress = (UNI_V3_ADDRESSES as any).universalRouter
+    ? ((UNI_V3_ADDRESSES as any).universalRouter as Address)
+    : (UNI_V3_ADDRESSES.swapRouter as Address);
+
   async function checkAllowance() {
     if (!publicClient || !address || !tokenIn) {
       setHasAllowance(false);
       return;
     }
+    // Native ETH is sent as msg.value, nothing to approve
+    if (nativeIn) {
+      setHasAllowance(true);
+      setNeedsPermitSignature(false);
+      return;
+    }
 
     const permit2 = UNI_V3_ADDRESSES.permit2 as Address;
-    const router = (UNI_V3_ADDRESSES as any).universalRouter
-      ? ((UNI_V3_ADDRESSES as any).universalRouter as Address)
-      : (UNI_V3_ADDRESSES.swapRouter as Address);
 
     try {
       setCheckingAllowance(true);
 
-      const erc20AllowancePromise = publicClient.readContract({
-        address: tokenIn,
-        abi: erc20Abi,
-        functionName: "allowance",
-        args: [address as Address, permit2],
-      }) as Promise<bigint>;
-
-      // 🔧 remove the explicit tuple cast here
-      const permit2AllowancePromise = publicClient.readContract({
-        address: permit2,
-        abi: permit2Abi,
-        functionName: "allowance",
-        args: [address as Address, tokenIn as Address, router],
-      });
-
-      const [erc20Allowance, [p2Amount]] = await Promise.all([
-        erc20AllowancePromise,
-        permit2AllowancePromise,
+      const [erc20Allowance, p2Allowance] = await Promise.all([
+        publicClient.readContract({
+          address: tokenIn,
+          abi: erc20Abi,
+          functionName: "allowance",
+          args: [address as Address, permit2],
+        }) as Promise<bigint>,
+        readPermit2Allowance(
+          publicClient,
+          address as Address,
+          tokenIn as Address,
+          routerAddress
+        ),
       ]);
 
-      const enough =
-        amountInWei > 0n &&
-        erc20Allowance >= amountInWei &&
-        p2Amount >= amountInWei;
+      const erc20Enough = requiredInWei > 0n && erc20Allowance >= requiredInWei;
+      const p2Valid = isPermit2AllowanceValid(p2Allowance, requiredInWei);
 
-      setHasAllowance(enough);
+      // In signature mode a missing/expired Permit2 allowance is signed at swap time
+      setHasAllowance(erc20Enough && (approvalMode === "signature" || p2Valid));
+      setNeedsPermitSignature(approvalMode === "signature" && !p2Valid);
     } catch (err) {
       console.error("checkAllowance failed", err);
       setHasAllowance(false);
@@ -616,22 +1029,79 @@ export default function SwapCard({
 
   // auto-check allowance when relevant inputs change
   useEffect(() => {
-    if (!publicClient || !address || !tokenIn || amountInWei === 0n) {
+    if (!publicClient || !address || !tokenIn || requiredInWei === 0n) {
       setHasAllowance(false);
       return;
     }
     checkAllowance();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [publicClient, address, tokenIn, amountInWei]);
+  }, [publicClient, address, tokenIn, requiredInWei, nativeIn, approvalMode]);
 
-  // Approve button: ensure ERC20 + Permit2 internal allowance
+  useEffect(() => {
+    let active = true;
+    if (!walletClient || !address) {
+      setCanBatch(false);
+      return;
+    }
+    walletClient
+      .getChainId()
+      .then((chainId) => supportsAtomicBatch(walletClient, address, chainId))
+      .then((ok) => {
+        if (active) setCanBatch(ok);
+      })
+      .catch(() => {
+        if (active) setCanBatch(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [walletClient, address]);
+
+  function erc20ApproveAmount() {
+    const maxUint256 = (1n << 256n) - 1n;
+    return approvalAmount === "exact" ? requiredInWei : maxUint256;
+  }
+
+  // Permit2 approve(token, router, amount, expiration), valid for five years
+  function permit2ApproveArgs() {
+    const fiveYears = 60 * 60 * 24 * 365 * 5; // number (5 years in seconds)
+    const now = Math.floor(Date.now() / 1000); // number (current time in seconds)
+    const expiration = now + fiveYears; // number
+    return [
+      tokenIn as Address,
+      routerAddress,
+      approvalAmount === "exact" ? requiredInWei : MAX_UINT160,
+      expiration,
+    ] as const;
+  }
+
+  // On-chain Permit2 internal allowance (user, token, router)
+  async function approvePermit2OnChain() {
+    if (!walletClient || !publicClient || !address || !tokenIn) return;
+
+    const p2Allowance = await readPermit2Allowance(
+      publicClient,
+      address as Address,
+      tokenIn as Address,
+      routerAddress
+    );
+    if (isPermit2AllowanceValid(p2Allowance, requiredInWei)) return;
+
+    const hash = await walletClient.writeContract({
+      address: UNI_V3_ADDRESSES.permit2 as Address,
+      abi: permit2Abi,
+      functionName: "approve",
+      args: permit2ApproveArgs(),
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  // Approve button: ensure ERC20 → Permit2 (+ Permit2 internal allowance in on-chain mode)
   async function ensureAllowance() {
     if (!walletClient || !publicClient || !address || !tokenIn) return;
+    if (nativeIn) return;
 
     const permit2 = UNI_V3_ADDRESSES.permit2 as Address;
-    const router = (UNI_V3_ADDRESSES as any).universalRouter
-      ? ((UNI_V3_ADDRESSES as any).universalRouter as Address)
-      : (UNI_V3_ADDRESSES.swapRouter as Address);
 
     try {
       setApproving(true);
@@ -644,53 +1114,34 @@ export default function SwapCard({
         args: [address as Address, permit2],
       })) as bigint;
 
-      if (erc20Allowance < amountInWei) {
-        const maxUint256 = (1n << 256n) - 1n;
+      if (erc20Allowance < requiredInWei) {
         const hash = await walletClient.writeContract({
           address: tokenIn,
           abi: erc20Abi,
           functionName: "approve",
-          args: [permit2, maxUint256],
+          args: [permit2, erc20ApproveAmount()],
         });
         await publicClient.waitForTransactionReceipt({ hash });
       }
 
-      // Step 2: Permit2 internal allowance (user, token, router)
-      const [p2Amount] = (await publicClient.readContract({
-        address: permit2,
-        abi: permit2Abi,
-        functionName: "allowance",
-        args: [address as Address, tokenIn as Address, router],
-      })) as unknown as [bigint, bigint, bigint];
-
-      if (p2Amount < amountInWei) {
-        const maxUint160 = (1n << 160n) - 1n;
-        const fiveYears = 60 * 60 * 24 * 365 * 5; // number (5 years in seconds)
-        const now = Math.floor(Date.now() / 1000); // number (current time in seconds)
-        const expiration = now + fiveYears; // number
-
-        const hash2 = await walletClient.writeContract({
-          address: permit2,
-          abi: permit2Abi,
-          functionName: "approve",
-          args: [tokenIn as Address, router, maxUint160, expiration],
-        });
-        await publicClient.waitForTransactionReceipt({ hash: hash2 });
+      // Step 2: signature mode defers this to a PERMIT2_PERMIT at swap time
+      if (approvalMode === "onchain") {
+        await approvePermit2OnChain();
       }
 
       await checkAllowance();
       setStatus({
         type: "success",
-        message: "Token spending approved via Permit2.",
+        message:
+          approvalMode === "signature"
+            ? "Token approved for Permit2. You'll sign a permit when swapping."
+            : "Token spending approved via Permit2.",
       });
     } catch (err: any) {
       console.error("ensureAllowance failed", err);
       setStatus({
         type: "error",
-        message:
-          err?.shortMessage ??
-          err?.message ??
-          (typeof err === "string" ? err : "Approve failed"),
+        message: txErrorMessage(err, "Approve failed"),
       });
       throw err;
     } finally {
@@ -698,46 +1149,243 @@ export default function SwapCard({
     }
   }
 
-  // --- Preview Swap (simulate-only) ---
-  async function previewSwap() {
-    if (!walletClient || !address || !tokenIn || !tokenOut) return;
-    if (!publicClient) return;
-    if (!amountOut || amountOut === 0n) return;
-    if (!route) return;
+  /**
+   * The approvals ensureAllowance would send, as calls to run ahead of the
+   * swap in one batch. Signature mode only needs the ERC-20 approve; the
+   * Permit2 allowance is signed and travels inside the swap itself.
+   */
+  async function approvalCalls(): Promise<BatchCall[]> {
+    if (!publicClient || !address || !tokenIn || nativeIn) return [];
+    const permit2 = UNI_V3_ADDRESSES.permit2 as Address;
+
+    const [erc20Allowance, p2Allowance] = await Promise.all([
+      publicClient.readContract({
+        address: tokenIn,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [address as Address, permit2],
+      }) as Promise<bigint>,
+      readPermit2Allowance(
+        publicClient,
+        address as Address,
+        tokenIn as Address,
+        routerAddress
+      ),
+    ]);
+
+    const calls: BatchCall[] = [];
+    if (erc20Allowance < requiredInWei) {
+      calls.push({
+        to: tokenIn,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [permit2, erc20ApproveAmount()],
+      });
+    }
+    if (
+      approvalMode === "onchain" &&
+      !isPermit2AllowanceValid(p2Allowance, requiredInWei)
+    ) {
+      calls.push({
+        to: permit2,
+        abi: permit2Abi,
+        functionName: "approve",
+        args: permit2ApproveArgs(),
+      });
+    }
+    return calls;
+  }
+
+  /**
+   * Signature mode: returns a signed PermitSingle when the router's Permit2
+   * allowance is short or expired (reusing a still-valid earlier signature).
+   * Wallets that can't sign typed data fall back to the on-chain approve.
+   */
+  async function getPermitForSwap(): Promise<
+    { permit: PermitSingle; signature: Hex } | undefined
+  > {
+    if (!walletClient || !publicClient || !address || !tokenIn) return;
+    if (nativeIn || approvalMode !== "signature") return;
 
-    if (!hasAllowance) {
+    const p2Allowance = await readPermit2Allowance(
+      publicClient,
+      address as Address,
+      tokenIn as Address,
+      routerAddress
+    );
+    if (isPermit2AllowanceValid(p2Allowance, requiredInWei)) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    const cached = signedPermitRef.current;
+    if (
+      cached &&
+      cached.permit.details.token.toLowerCase() === tokenIn.toLowerCase() &&
+      cached.permit.spender.toLowerCase() === routerAddress.toLowerCase() &&
+      cached.permit.details.nonce === p2Allowance.nonce &&
+      cached.permit.details.amount >= requiredInWei &&
+      cached.permit.sigDeadline > BigInt(now)
+    ) {
+      return cached;
+    }
+
+    const permit = buildPermitSingle({
+      token: tokenIn as Address,
+      spender: routerAddress,
+      nonce: p2Allowance.nonce,
+      nowSec: now,
+      ...(approvalAmount === "exact" ? { amount: requiredInWei } : {}),
+    });
+
+    try {
+      setStatus({
+        type: "info",
+        message: "Sign the Permit2 message in your wallet…",
+      });
+      const signature = await signPermitSingle(walletClient, {
+        account: address as Address,
+        chainId: await walletClient.getChainId(),
+        permit,
+      });
+      signedPermitRef.current = { permit, signature };
+      setStatus(null);
+      return signedPermitRef.current;
+    } catch (err: any) {
+      if (isUserRejection(err)) throw err;
+
+      console.warn(
+        "Permit2 signature failed, falling back to on-chain approve",
+        err
+      );
       setStatus({
         type: "info",
-        message: "Please approve token spending first to preview.",
+        message:
+          "Your wallet couldn't sign the permit. Approving Permit2 on-chain instead…",
       });
+      await approvePermit2OnChain();
+      setSettings({ permit2Mode: "onchain" });
       return;
     }
+  }
 
-    const deadline = BigInt(
-      Math.floor(Date.now() / 1000) +
-        Number(process.env.NEXT_PUBLIC_TX_DEADLINE_MIN ?? 20) * 60
-    );
+  // Universal Router commands/inputs/value for the current trade
+  function buildExecuteArgs(
+    recipient: Address,
+    permit?: { permit: PermitSingle; signature: Hex }
+  ) {
+    if (!route) throw new Error("No route");
+    if (!amountOut || !quotedAmountIn) throw new Error("No quote");
+
+    if (activeSplit) {
+      return buildSplitSwapExecuteArgs({
+        recipient,
+        legs: activeSplit.legs.map((l) => ({
+          tokens: l.route.tokens,
+          fees: l.route.fees,
+          amountIn: l.amountIn,
+        })),
+        amountOutMinimum: minOut,
+        nativeIn,
+        nativeOut,
+        permit,
+      });
+    }
 
-    const routerAddr = (UNI_V3_ADDRESSES as any).universalRouter
-      ? ((UNI_V3_ADDRESSES as any).universalRouter as Address)
-      : (UNI_V3_ADDRESSES.swapRouter as Address);
+    return buildSwapExecuteArgs({
+      tradeType,
+      recipient,
+      tokens: route.tokens,
+      fees: route.fees,
+      amountIn: quotedAmountIn,
+      amountOut,
+      amountOutMinimum: minOut ?? 0n,
+      amountInMaximum: maxIn,
+      nativeIn,
+      nativeOut,
+      permit,
+      transferFirst,
+    });
+  }
 
-    const amountOutMinimum = minOut ?? 0n;
-    const path = encodeV3Path(route.tokens, route.fees);
+  // Instant quotes come from the local simulator; QuoterV2 re-checks the
+  // final amounts against the slippage bounds before anything is sent
+  async function confirmQuoteOnChain() {
+    if (!publicClient || !route || !amountOut || !quotedAmountIn) {
+      throw new Error("No quote");
+    }
 
-    const input = encodeAbiParameters(
-      parseAbiParameters(
-        "address recipient, uint256 amountIn, uint256 amountOutMinimum, bytes path, bool payerIsUser"
-      ),
-      [address as Address, amountInWei, amountOutMinimum, path, true]
+    if (tradeType === "exactOut") {
+      const confirmed = await quoteExactOutPath(publicClient, {
+        tokens: route.tokens,
+        fees: route.fees,
+        amountOut,
+      });
+      if (confirmed.amountIn > maxIn) {
+        throw new Error(
+          "Price moved: the required input is now above your maximum. Review the updated quote."
+        );
+      }
+      return;
+    }
+
+    const legs = activeSplit
+      ? activeSplit.legs.map((l) => ({
+          tokens: l.route.tokens,
+          fees: l.route.fees,
+          amountIn: l.amountIn,
+        }))
+      : [
+          {
+            tokens: route.tokens,
+            fees: route.fees,
+            // transfer-first swaps only what reaches the router
+            amountIn: transferFirst
+              ? afterTax(quotedAmountIn, taxIn?.sellBps)
+              : quotedAmountIn,
+          },
+        ];
+    const quotes = await Promise.all(
+      legs.map((l) => quoteExactInPath(publicClient, l))
     );
+    const confirmedOut = quotes.reduce((acc, q) => acc + q.amountOut, 0n);
+    if (confirmedOut < minOut) {
+      throw new Error(
+        "Price moved: the output is now below your minimum received. Review the updated quote."
+      );
+    }
+  }
 
-    const commands = V3_SWAP_EXACT_IN as Hex;
-    const inputs = [input] as Hex[];
+  // --- Preview Swap (simulate-only) ---
+  async function previewSwap() {
+    if (!walletClient || !address || !tokenIn || !tokenOut) return;
+    if (!publicClient) return;
+    if (!amountOut || amountOut === 0n) return;
+    if (!route) return;
+
+    const deadline = txDeadline(deadlineMin);
+
+    const routerAddr = routerAddress;
+
+    // Not approved yet: simulate as if the ERC-20 and Permit2 allowances were
+    // in place (eth_call state overrides), without asking for a permit
+    const assumedApproval = !hasAllowance && !nativeIn;
 
     try {
       setSimulatingPreview(true);
 
+      await confirmQuoteOnChain();
+      const permit = assumedApproval ? undefined : await getPermitForSwap();
+      const { commands, inputs, value } = buildExecuteArgs(
+        recipient as Address,
+        permit
+      );
+      const stateOverride = assumedApproval
+        ? await approvalStateOverride(publicClient, {
+            token: tokenIn,
+            owner: address as Address,
+            spender: routerAddr,
+          })
+        : undefined;
+
       // 1) Simulate to catch reverts & surface good errors
       await publicClient.simulateContract({
         address: routerAddr,
@@ -745,7 +1393,8 @@ export default function SwapCard({
         functionName: "execute",
         args: [commands, inputs, deadline],
         account: address as Address,
-        value: 0n,
+        value,
+        stateOverride,
       });
 
       // 2) Get an actual gas estimate using estimateContractGas
@@ -755,36 +1404,76 @@ export default function SwapCard({
         functionName: "execute",
         args: [commands, inputs, deadline],
         account: address as Address,
-        value: 0n,
+        value,
+        stateOverride,
       });
 
       setLastSimulation({
         gasEstimate: gas,
-        value: 0n,
+        value,
+        assumedApproval,
       });
+      if (assumedApproval) {
+        setStatus({
+          type: "info",
+          message:
+            "Simulated as if approved: the swap would succeed once token spending is approved.",
+        });
+      }
     } catch (e: any) {
       console.error("Preview simulation failed", e);
       setLastSimulation(null);
       setStatus({
         type: "error",
-        message:
-          e?.shortMessage ??
-          e?.message ??
-          (typeof e === "string" ? e : "Preview failed"),
+        message: txErrorMessage(e, "Preview failed"),
       });
     } finally {
       setSimulatingPreview(false);
     }
   }
 
-  // 6) Swap (requires prior approval + a route)
+  // Waits for the swap transaction and compares what it did with the quote
+  async function settleSwap(
+    hash: Hex,
+    sentTo: Address,
+    quoted: SwapResult["quoted"]
+  ) {
+    if (!publicClient || !address) return;
+    setSwapResult({ hash, recipient: sentTo, quoted, summary: null });
+    setStatus({
+      type: "info",
+      message: "Swap submitted. Waiting for confirmation…",
+    });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    const summary = summarizeSwapReceipt(receipt, {
+      payer: address as Address,
+      recipient: sentTo,
+      router: routerAddress,
+      tokenIn: routeTokenIn as Address,
+      tokenOut: routeTokenOut as Address,
+      weth: UNI_V3_ADDRESSES.weth as Address,
+      nativeIn,
+      nativeOut,
+    });
+    setSwapResult({ hash, recipient: sentTo, quoted, summary });
+
+    if (summary.status === "reverted") {
+      setStatus({ type: "error", message: "Swap transaction reverted." });
+    } else {
+      setStatus({ type: "success", message: "Swap confirmed." });
+    }
+  }
+
+  // 6) Swap (requires prior approval + a route; batching wallets approve in
+  // the same prompt)
   async function onSwap() {
     if (!walletClient || !address || !tokenIn || !tokenOut) return;
     if (!publicClient) return;
     if (!amountOut || amountOut === 0n) return;
     if (!route) return;
 
-    if (!hasAllowance) {
+    if (!hasAllowance && !canBatch) {
       setStatus({
         type: "info",
         message: "Please approve token spending first.",
@@ -792,29 +1481,95 @@ export default function SwapCard({
       return;
     }
 
-    const deadline = BigInt(
-      Math.floor(Date.now() / 1000) +
-        Number(process.env.NEXT_PUBLIC_TX_DEADLINE_MIN ?? 20) * 60
-    );
-
-    const routerAddr = (UNI_V3_ADDRESSES as any).universalRouter
-      ? ((UNI_V3_ADDRESSES as any).universalRouter as Address)
-      : (UNI_V3_ADDRESSES.swapRouter as Address);
+    if (!impactConfirmed) {
+      setStatus({
+        type: "error",
+        message: `Price impact is above ${PRICE_IMPACT_CONFIRM_PCT}%. Type "confirm" to swap anyway.`,
+      });
+      return;
+    }
 
-    const amountOutMinimum = minOut ?? 0n;
-    const path = encodeV3Path(route.tokens, route.fees);
+    const deadline = txDeadline(deadlineMin);
 
-    const input = encodeAbiParameters(
-      parseAbiParameters(
-        "address recipient, uint256 amountIn, uint256 amountOutMinimum, bytes path, bool payerIsUser"
-      ),
-      [address as Address, amountInWei, amountOutMinimum, path, true]
-    );
+    const routerAddr = routerAddress;
 
-    const commands = V3_SWAP_EXACT_IN as Hex;
-    const inputs = [input] as Hex[];
+    // Snapshot what was quoted so the result can be compared against it
+    const quoted = {
+      tradeType,
+      amountIn: quotedAmountIn ?? 0n,
+      amountOut: amountOut,
+      decIn: tIn?.decimals ?? 18,
+      decOut: tOut?.decimals ?? 18,
+      symbolIn: tIn?.symbol ?? "",
+      symbolOut: tOut?.symbol ?? "",
+    };
+    const sentTo = recipient as Address;
 
     try {
+      await confirmQuoteOnChain();
+      const approvals = hasAllowance ? [] : await approvalCalls();
+      const permit = await getPermitForSwap();
+      const { commands, inputs, value } = buildExecuteArgs(sentTo, permit);
+
+      if (approvals.length) {
+        setStatus({
+          type: "info",
+          message: `Confirm the approval${
+            approvals.length > 1 ? "s" : ""
+          } and swap in your wallet…`,
+        });
+        // Can't be simulated ahead: the swap depends on the approvals in
+        // front of it, so the wallet's own simulation is the check here
+        let id: string | null = null;
+        try {
+          id = await sendBatch(walletClient, address as Address, [
+            ...approvals,
+            {
+              to: routerAddr,
+              abi: universalRouterAbi,
+              functionName: "execute",
+              args: [commands, inputs, deadline],
+              value,
+            },
+          ]);
+        } catch (e) {
+          if (!isBatchUnsupported(e)) throw e;
+          console.warn("Wallet can't batch, approving separately", e);
+          markBatchUnsupported(
+            walletClient,
+            address as Address,
+            await walletClient.getChainId()
+          );
+          setCanBatch(false);
+          await ensureAllowance();
+        }
+
+        // Once the wallet has the batch, never send the swap again
+        if (id) {
+          signedPermitRef.current = null;
+          setStatus({
+            type: "info",
+            message: "Approve and swap submitted. Waiting for confirmation…",
+          });
+          console.log("Approve and swap batch sent", id);
+
+          let batch;
+          try {
+            batch = await waitForBatch(walletClient, id);
+          } catch (e) {
+            console.error("Batch status unavailable", id, e);
+            throw new Error(
+              "The approve and swap batch was sent, but its status couldn't be read. Check your wallet's activity before trying again."
+            );
+          }
+          const last = batch.receipts[batch.receipts.length - 1];
+          checkAllowance();
+          if (!last) throw new Error("Batched swap failed");
+          await settleSwap(last.transactionHash, sentTo, quoted);
+          return;
+        }
+      }
+
       console.log("Simulating Universal Router swap", {
         routerAddr,
         commands,
@@ -828,7 +1583,7 @@ export default function SwapCard({
         functionName: "execute",
         args: [commands, inputs, deadline],
         account: address as Address,
-        value: 0n,
+        value,
       });
 
       console.log(
@@ -842,28 +1597,16 @@ export default function SwapCard({
       });
 
       const hash = await walletClient.writeContract(request);
-
-      setStatus({
-        type: "success",
-        message: `Swap submitted. Tx hash: ${hash}`,
-      });
+      // The permit's nonce is consumed once this mines
+      signedPermitRef.current = null;
       console.log("Universal Router swap tx sent", hash);
+
+      await settleSwap(hash, sentTo, quoted);
     } catch (e: any) {
       console.error("Swap failed (simulation or send)", e);
-      let msg =
-        e?.shortMessage ??
-        e?.message ??
-        (typeof e === "string" ? e : "Swap failed");
-
-      const raw = String(e);
-      if (raw.includes("0xf96fb071")) {
-        msg =
-          'Swap failed due to insufficient Permit2 allowance. Please click "Approve" again or reduce the amount.';
-      }
-
       setStatus({
         type: "error",
-        message: msg,
+        message: txErrorMessage(e, "Swap failed"),
       });
     }
   }
@@ -873,17 +1616,20 @@ export default function SwapCard({
     routing ||
     !!quoteErr ||
     !!poolErr ||
+    !!fotError ||
     !amountOut ||
     !tokenIn ||
     !tokenOut ||
-    amountInWei === 0n ||
+    requiredInWei === 0n ||
     !address ||
-    !route;
+    !route ||
+    recipientBlocked ||
+    !impactConfirmed;
 
   const disableApprove =
     !address ||
     !tokenIn ||
-    amountInWei === 0n ||
+    requiredInWei === 0n ||
     approving ||
     checkingAllowance ||
     hasAllowance;
@@ -892,19 +1638,25 @@ export default function SwapCard({
     !address ||
     !tokenIn ||
     !tokenOut ||
-    amountInWei === 0n ||
+    requiredInWei === 0n ||
     simulatingPreview ||
-    !hasAllowance ||
+    !!fotError ||
+    !!parsedRecipient.error ||
     !route;
 
   // nicer button label
   let buttonLabel = "Swap";
   if (!address) buttonLabel = "Connect wallet";
   else if (!tokenIn || !tokenOut) buttonLabel = "Select tokens";
-  else if (!amountIn || Number(amountIn) <= 0) buttonLabel = "Enter amount";
+  else if (tradeType === "exactIn" ? amountInWei === 0n : amountOutWei === 0n)
+    buttonLabel = "Enter amount";
   else if (routing) buttonLabel = "Finding route…";
   else if (quoting) buttonLabel = "Quoting…";
   else if (!amountOut) buttonLabel = "No quote";
+  else if (!impactConfirmed) buttonLabel = "Confirm price impact";
+  else if (parsedRecipient.error) buttonLabel = "Invalid recipient";
+  else if (recipientBlocked) buttonLabel = "Confirm recipient";
+  else if (!hasAllowance && canBatch) buttonLabel = "Approve and swap";
 
   return (
     <div className="max-w-lg mx-auto rounded-2xl p-4 bg-neutral-900 shadow space-y-4">
@@ -915,7 +1667,8 @@ export default function SwapCard({
           label="Token In"
           value={tokenIn}
           onChange={setTokenIn}
-          excludeAddrs={HIDDEN_SWAP_TOKENS}
+          excludeAddrs={hiddenTokens as Address[]}
+          includeNative
         />{" "}
       </div>
 
@@ -935,7 +1688,8 @@ export default function SwapCard({
           label="Token Out"
           value={tokenOut}
           onChange={setTokenOut}
-          excludeAddrs={HIDDEN_SWAP_TOKENS}
+          excludeAddrs={hiddenTokens as Address[]}
+          includeNative
         />{" "}
       </div>
 
@@ -962,12 +1716,67 @@ export default function SwapCard({
           className="w-full bg-neutral-900 p-2 rounded-lg"
           placeholder="0.0"
           value={amountIn}
-          onChange={(e) => setAmountIn(e.target.value)}
+          onChange={(e) => {
+            setTradeType("exactIn");
+            setAmountIn(e.target.value);
+          }}
         />
       </div>
 
+      <div className="space-y-1 bg-neutral-800 rounded-xl p-3">
+        <div className="flex items-center justify-between text-xs opacity-70">
+          <span>Amount Out</span>
+          {tradeType === "exactOut" && (
+            <span className="text-orange-300">Exact output</span>
+          )}
+        </div>
+        <input
+          className="w-full bg-neutral-900 p-2 rounded-lg"
+          placeholder="0.0"
+          value={amountOutInput}
+          onChange={(e) => {
+            setTradeType("exactOut");
+            setAmountOutInput(e.target.value);
+          }}
+        />
+      </div>
+
+      {sendOpen ? (
+        <RecipientField
+          value={sendTo}
+          onChange={(v) => {
+            setSendTo(v);
+            setRecipientConfirmed(false);
+          }}
+          confirmed={recipientConfirmed}
+          onConfirmedChange={setRecipientConfirmed}
+          self={address as Address | undefined}
+          symbolOut={tOut?.symbol}
+        />
+      ) : null}
+      <div className="flex justify-end -mt-2">
+        <button
+          type="button"
+          className="text-[11px] underline opacity-70 hover:opacity-100"
+          onClick={() => {
+            setSendOpen((v) => !v);
+            setSendTo("");
+            setRecipientConfirmed(false);
+          }}
+        >
+          {sendOpen ? "Send to my wallet" : "Send to another address"}
+        </button>
+      </div>
+
       <div className="flex items-center justify-between text-sm">
-        <SlippageControl value={slippageBps} onChange={setSlippageBps} />
+        <SlippageControl
+          value={slippageBps}
+          onChange={setSlippageBps}
+          auto={slippageAuto}
+          onAutoChange={setSlippageAuto}
+          autoBps={autoSlippage?.bps ?? null}
+          autoReasons={autoSlippage?.reasons ?? []}
+        />
         <div className="text-right opacity-80 text-xs">
           <div>Fee tier: {((route?.fees?.[0] ?? fee) / 10000).toFixed(2)}%</div>
         </div>
@@ -1016,19 +1825,37 @@ export default function SwapCard({
                     );
                   })}
                 </div>
+                {splitLabel && (
+                  <div className="text-[11px] text-orange-300">
+                    Split: {splitLabel}
+                  </div>
+                )}
               </div>
             )}
 
-            {/* Prominent quote */}
-            {amountOut !== null && tOut && (
+            {/* Prominent quote (exactOut: the input you will pay) */}
+            {tradeType === "exactOut" && quotedAmountIn !== null && tIn && (
+              <div className="mt-1">
+                <div className="text-xs font-semibold text-orange-400 uppercase tracking-wide">
+                  You pay
+                </div>
+                <div className="text-2xl font-semibold text-orange-300">
+                  {Number(
+                    formatUnits(quotedAmountIn, tIn.decimals ?? 18)
+                  ).toFixed(4)}{" "}
+                  {tIn.symbol}
+                </div>
+              </div>
+            )}
+            {tradeType === "exactIn" && receivedOut !== null && tOut && (
               <div className="mt-1">
                 <div className="text-xs font-semibold text-orange-400 uppercase tracking-wide">
                   Quote
                 </div>
                 <div className="text-2xl font-semibold text-orange-300">
-                  {Number(formatUnits(amountOut, tOut.decimals ?? 18)).toFixed(
-                    4
-                  )}{" "}
+                  {Number(
+                    formatUnits(receivedOut, tOut.decimals ?? 18)
+                  ).toFixed(4)}{" "}
                   {tOut.symbol}
                 </div>
               </div>
@@ -1053,15 +1880,90 @@ export default function SwapCard({
 
       {amountOut !== null && tOut && (
         <div className="text-xs space-y-2">
-          <div className="text-center text-orange-400 font-semibold">
-            Minimum received (after slippage):{" "}
-            {Number(formatUnits(minOut ?? 0n, tOut.decimals ?? 18)).toFixed(4)}{" "}
-            {tOut.symbol}
-          </div>
+          {tradeType === "exactOut" && tIn ? (
+            <div className="text-center text-orange-400 font-semibold">
+              Maximum sold (after slippage):{" "}
+              {Number(formatUnits(maxIn ?? 0n, tIn.decimals ?? 18)).toFixed(4)}{" "}
+              {tIn.symbol}
+            </div>
+          ) : (
+            <div className="text-center text-orange-400 font-semibold">
+              Minimum received (after slippage):{" "}
+              {Number(formatUnits(receivedMin, tOut.decimals ?? 18)).toFixed(4)}{" "}
+              {tOut.symbol}
+            </div>
+          )}
+          {networkCostUsd !== null && (
+            <div className="flex items-center justify-between">
+              <span className="opacity-60">Network cost</span>
+              <span>≈ {formatUsd(networkCostUsd)}</span>
+            </div>
+          )}
+          {customRecipient && recipient && (
+            <div className="flex items-center justify-between">
+              <span className="opacity-60">Recipient</span>
+              <span className="font-mono text-amber-300">
+                {recipient.slice(0, 6)}…{recipient.slice(-4)}
+              </span>
+            </div>
+          )}
+          {taxSummary && (
+            <div className="flex items-center justify-between">
+              <span className="opacity-60">Transfer tax</span>
+              <span className="text-amber-400">{taxSummary}</span>
+            </div>
+          )}
+          {transferFirst && (
+            <div className="text-center opacity-50">
+              Sent to the router first; the swap uses the amount that arrives
+            </div>
+          )}
+          {quoteSource === "local" && (
+            <div className="text-center opacity-50">
+              Simulated locally · re-checked with QuoterV2 before sending
+            </div>
+          )}
+          {priceImpact !== null && (
+            <div className="flex items-center justify-between">
+              <span className="opacity-60">Price impact</span>
+              <span className={IMPACT_TIER_CLASS[impactTier(priceImpact)]}>
+                {priceImpact < 0.01 ? "<0.01" : priceImpact.toFixed(2)}%
+              </span>
+            </div>
+          )}
+          {poolShifts && poolShifts.length > 0 && (
+            <div className="flex items-center justify-between opacity-60">
+              <span>Pool price after trade</span>
+              <span>
+                {poolShifts.map((p) => `${p.toFixed(2)}%`).join(" / ")}
+              </span>
+            </div>
+          )}
+          {impactNeedsConfirm && (
+            <div className="rounded-lg bg-red-900/40 text-red-300 p-2 space-y-1">
+              <div>
+                This trade moves the price by more than{" "}
+                {PRICE_IMPACT_CONFIRM_PCT}%. Type <b>confirm</b> to enable the
+                swap.
+              </div>
+              <input
+                className="w-full bg-neutral-900 p-1 rounded"
+                placeholder="confirm"
+                value={impactConfirmText}
+                onChange={(e) => setImpactConfirmText(e.target.value)}
+              />
+            </div>
+          )}
           <div className="flex items-center justify-between opacity-60">
             <span>
               {lastSimulation?.gasEstimate
-                ? `Estimated gas: ${lastSimulation.gasEstimate.toString()}`
+                ? `${
+                    lastSimulation.assumedApproval
+                      ? "Simulated gas (before approval)"
+                      : "Estimated gas"
+                  }: ${lastSimulation.gasEstimate.toString()} (≈ ${formatUsd(
+                    gasUsd(lastSimulation.gasEstimate)
+                  )})`
                 : "No gas estimate yet"}
             </span>
             <button
@@ -1078,6 +1980,7 @@ export default function SwapCard({
 
       {poolErr && <div className="text-xs text-amber-400">{poolErr}</div>}
       {quoteErr && <div className="text-xs text-red-400">{quoteErr}</div>}
+      {fotError && <div className="text-xs text-red-400">{fotError}</div>}
 
       {status && (
         <div
@@ -1093,6 +1996,12 @@ export default function SwapCard({
           {status.message}
         </div>
       )}
+      {swapResult && (
+        <SwapResultPanel
+          result={swapResult}
+          self={address as Address | undefined}
+        />
+      )}
       <div className="flex gap-2">
         <button
           type="button"
@@ -1106,6 +2015,115 @@ export default function SwapCard({
           {buttonLabel}
         </button>
       </div>
+      {!nativeIn && (
+        <div className="flex items-center justify-between text-[11px] opacity-70">
+          <span>
+            {hasAllowance && needsPermitSignature
+              ? "A Permit2 signature will be requested when you swap."
+              : !hasAllowance && canBatch
+              ? "Your wallet can approve and swap in one step."
+              : "Permit2 approval"}
+          </span>
+          <button
+            type="button"
+            className="underline"
+            onClick={() =>
+              setSettings({
+                permit2Mode:
+                  approvalMode === "signature" ? "onchain" : "signature",
+              })
+            }
+          >
+            {approvalMode === "signature" ? "Signature" : "On-chain tx"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SwapResultPanel({
+  result,
+  self,
+}: {
+  result: SwapResult;
+  self?: Address;
+}) {
+  const { hash, recipient, quoted, summary } = result;
+  const link = explorerUrl("tx", hash);
+
+  const rows: { k: string; v: string }[] = [];
+  if (summary && summary.status === "success") {
+    const inHuman = Number(formatUnits(summary.amountIn, quoted.decIn));
+    const outHuman = Number(formatUnits(summary.amountOut, quoted.decOut));
+
+    // Positive = worse than quoted (less out for exactIn, more in for exactOut)
+    const slippagePct =
+      quoted.tradeType === "exactIn"
+        ? quoted.amountOut > 0n
+          ? (Number(quoted.amountOut - summary.amountOut) /
+              Number(quoted.amountOut)) *
+            100
+          : null
+        : quoted.amountIn > 0n
+        ? (Number(summary.amountIn - quoted.amountIn) /
+            Number(quoted.amountIn)) *
+          100
+        : null;
+
+    rows.push(
+      { k: "Paid", v: `${inHuman.toFixed(6)} ${quoted.symbolIn}` },
+      { k: "Received", v: `${outHuman.toFixed(6)} ${quoted.symbolOut}` },
+      {
+        k: "Effective price",
+        v:
+          inHuman > 0
+            ? `1 ${quoted.symbolIn} = ${(outHuman / inHuman).toPrecision(6)} ${
+                quoted.symbolOut
+              }`
+            : "-",
+      },
+      {
+        k: "Slippage vs quote",
+        v: slippagePct === null ? "-" : `${slippagePct.toFixed(3)}%`,
+      },
+      {
+        k: "Gas used",
+        v: `${summary.gasUsed.toString()} (${Number(
+          formatUnits(summary.gasCost, 18)
+        ).toPrecision(4)} ETH)`,
+      },
+      { k: "Pools", v: String(summary.swaps.length) }
+    );
+  }
+  if (!self || recipient.toLowerCase() !== self.toLowerCase()) {
+    rows.push({ k: "Recipient", v: recipient });
+  }
+
+  return (
+    <div className="text-xs bg-neutral-800 rounded-xl p-3 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">
+          {!summary
+            ? "Pending…"
+            : summary.status === "success"
+            ? "Swap confirmed"
+            : "Swap reverted"}
+        </span>
+        {link ? (
+          <a
+            href={link}
+            target="_blank"
+            rel="noreferrer"
+            className="underline opacity-80"
+          >
+            View on explorer
+          </a>
+        ) : (
+          <span className="opacity-60">{`${hash.slice(0, 10)}…`}</span>
+        )}
+      </div>
+      {rows.length > 0 && <TxPreview rows={rows} />}
     </div>
   );
 }
@@ -66,7 +66,7 @@ export function useAutoFeeTier({
                 fee,
                 amountInHuman,
                 decimalsIn,
-              }).then((out) => ({ fee, out }))
+              }).then(({ amountOut }) => ({ fee, out: amountOut }))
             )
           );
 
@@ -2,32 +2,56 @@
 "use client";
 import { useEffect, useMemo, useState } from "react";
 import type { Address } from "viem";
-import { formatUnits } from "viem";
+import { formatUnits, parseUnits } from "viem";
 import { usePublicClient } from "wagmi";
 import { useTokens } from "@/state/useTokens";
-import { quoteExactInSingle } from "@/lib/univ3/quotes";
+import { quoteExactInSingle, quoteExactOutSingle } from "@/lib/univ3/quotes";
+import { quotePath, type QuoteSource } from "@/lib/univ3/localQuote";
+import type { TradeType } from "@/lib/univ3/universalRouter";
+import { afterTax } from "@/lib/univ3/transferTax";
+import { estimateRouteGas } from "@/lib/univ3/gasCost";
 
 export function useQuote({
   tokenIn,
   tokenOut,
   amountInHuman,
+  amountOutHuman = "",
+  tradeType = "exactIn",
   fee,
   slippageBps,
   pathTokens,
   pathFees,
+  pathPools,
+  inputTaxBps,
 }: {
   tokenIn?: Address;
   tokenOut?: Address;
   amountInHuman: string;
+  amountOutHuman?: string;
+  tradeType?: TradeType;
   fee: number;
   slippageBps: number;
   pathTokens?: Address[];
   pathFees?: number[];
+  pathPools?: Address[];
+  // exactIn with a fee-on-transfer input: the pools only see what's left after the tax
+  inputTaxBps?: number | null;
 }) {
   const client = usePublicClient();
   const { byAddr } = useTokens();
 
+  // For exactIn this is the quoted output; for exactOut it is the user's target.
   const [amountOut, setAmountOut] = useState<bigint | null>(null);
+  // For exactOut this is the quoted input; for exactIn it is the user's amount.
+  const [amountIn, setAmountIn] = useState<bigint | null>(null);
+  // Pool prices after the trade, one per hop in trade order (path quotes only)
+  const [sqrtPriceX96AfterList, setSqrtPriceX96AfterList] = useState<
+    readonly bigint[] | null
+  >(null);
+  // Estimated gas units to execute the quoted trade through the router
+  const [gasUnits, setGasUnits] = useState<bigint | null>(null);
+  // "local": simulated from cached tick data; confirm with QuoterV2 before sending
+  const [source, setSource] = useState<QuoteSource | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,12 +60,20 @@ export function useQuote({
     return tokenIn ? byAddr.get(tokenIn.toLowerCase())?.decimals ?? 18 : 18;
   }, [byAddr, tokenIn]);
 
+  const decOut = useMemo(() => {
+    return tokenOut ? byAddr.get(tokenOut.toLowerCase())?.decimals ?? 18 : 18;
+  }, [byAddr, tokenOut]);
+
   useEffect(() => {
     let active = true;
 
     async function run() {
       setError(null);
       setAmountOut(null);
+      setAmountIn(null);
+      setSqrtPriceX96AfterList(null);
+      setGasUnits(null);
+      setSource(null);
 
       try {
         if (!client) throw new Error("No public client");
@@ -50,60 +82,112 @@ export function useQuote({
           throw new Error("Pick two different tokens");
         }
 
+        const hasPath =
+          !!pathTokens &&
+          !!pathFees &&
+          pathTokens.length >= 2 &&
+          pathFees.length === pathTokens.length - 1;
+
+        if (tradeType === "exactOut") {
+          const amt = Number(amountOutHuman || "0");
+          if (!Number.isFinite(amt) || amt <= 0) {
+            return; // wait until user enters a positive amount
+          }
+          const target = parseUnits(amountOutHuman, decOut);
+
+          setLoading(true);
+
+          // Routed exact output: local simulation, or QuoterV2 over the reversed path
+          if (hasPath) {
+            const quote = await quotePath(client, {
+              tokens: pathTokens!,
+              fees: pathFees!,
+              pools: pathPools,
+              tradeType,
+              amount: target,
+            });
+
+            if (!active) return;
+            setAmountOut(target);
+            setAmountIn(quote.amountIn);
+            setSqrtPriceX96AfterList(
+              [...quote.sqrtPriceX96AfterList].reverse()
+            );
+            setGasUnits(estimateRouteGas(quote, pathFees!.length));
+            setSource(quote.source);
+            return;
+          }
+
+          const single = await quoteExactOutSingle(client, {
+            tokenIn,
+            tokenOut,
+            fee,
+            amountOut: target,
+          });
+
+          if (!active) return;
+          setAmountOut(target);
+          setAmountIn(single.amountIn);
+          setGasUnits(
+            estimateRouteGas(
+              {
+                gasEstimate: single.gasEstimate,
+                initializedTicksCrossedList: [],
+              },
+              1
+            )
+          );
+          setSource("quoter");
+          return;
+        }
+
         const amt = Number(amountInHuman || "0");
         if (!Number.isFinite(amt) || amt <= 0) {
           return; // wait until user enters a positive amount
         }
 
         setLoading(true);
-
-        let finalOut: bigint;
-
-        // If a multi-hop path is provided and valid, quote hop-by-hop
-        if (
-          pathTokens &&
-          pathFees &&
-          pathTokens.length >= 2 &&
-          pathFees.length === pathTokens.length - 1
-        ) {
-          let currentAmountHuman = amountInHuman;
-
-          for (let i = 0; i < pathTokens.length - 1; i++) {
-            const hopIn = pathTokens[i]!;
-            const hopOut = pathTokens[i + 1]!;
-            const hopFee = pathFees[i]!;
-
-            const hopDecIn = byAddr.get(hopIn.toLowerCase())?.decimals ?? 18;
-            const hopDecOut = byAddr.get(hopOut.toLowerCase())?.decimals ?? 18;
-
-            const hopOutAmount = await quoteExactInSingle(client, {
-              tokenIn: hopIn,
-              tokenOut: hopOut,
-              fee: hopFee,
-              amountInHuman: currentAmountHuman,
-              decimalsIn: hopDecIn,
-            });
-
-            // Prepare input for next hop as human-readable string
-            currentAmountHuman = formatUnits(hopOutAmount, hopDecOut);
-            finalOut = hopOutAmount;
-          }
+        const swapped = afterTax(parseUnits(amountInHuman, decIn), inputTaxBps);
+
+        // A valid path is simulated locally (QuoterV2 path call as fallback)
+        if (hasPath) {
+          const quote = await quotePath(client, {
+            tokens: pathTokens!,
+            fees: pathFees!,
+            pools: pathPools,
+            tradeType,
+            amount: swapped,
+          });
 
           if (!active) return;
-          setAmountOut(finalOut!);
+          setAmountOut(quote.amountOut);
+          setSqrtPriceX96AfterList(quote.sqrtPriceX96AfterList);
+          setGasUnits(estimateRouteGas(quote, pathFees!.length));
+          setSource(quote.source);
         } else {
           // Fallback: single pool quote
-          const out = await quoteExactInSingle(client, {
+          const single = await quoteExactInSingle(client, {
             tokenIn,
             tokenOut,
             fee,
-            amountInHuman,
+            amountInHuman: formatUnits(swapped, decIn),
             decimalsIn: decIn,
           });
 
           if (!active) return;
-          setAmountOut(out);
+          setAmountOut(single.amountOut);
+          setGasUnits(
+            estimateRouteGas(
+              {
+                gasEstimate: single.gasEstimate,
+                initializedTicksCrossedList: [],
+              },
+              1
+            )
+          );
+          setSource("quoter");
         }
+        setAmountIn(parseUnits(amountInHuman, decIn));
       } catch (e: any) {
         if (!active) return;
         const msg = e?.shortMessage || e?.message || "Quote failed";
@@ -123,16 +207,42 @@ export function useQuote({
     tokenIn,
     tokenOut,
     amountInHuman,
+    amountOutHuman,
+    tradeType,
     fee,
     decIn,
+    decOut,
     pathTokens,
     pathFees,
+    pathPools,
+    inputTaxBps,
   ]);
 
+  // exactIn: slippage lowers the acceptable output
   const minOut = useMemo(() => {
     if (!amountOut) return 0n;
+    if (tradeType === "exactOut") return amountOut;
     return amountOut - (amountOut * BigInt(slippageBps)) / 10_000n;
-  }, [amountOut, slippageBps]);
-
-  return { amountOut, minOut, decIn, loading, error };
+  }, [amountOut, slippageBps, tradeType]);
+
+  // exactOut: slippage raises the acceptable input
+  const maxIn = useMemo(() => {
+    if (!amountIn) return 0n;
+    if (tradeType === "exactIn") return amountIn;
+    return amountIn + (amountIn * BigInt(slippageBps)) / 10_000n;
+  }, [amountIn, slippageBps, tradeType]);
+
+  return {
+    amountOut,
+    amountIn,
+    minOut,
+    maxIn,
+    decIn,
+    decOut,
+    sqrtPriceX96AfterList,
+    gasUnits,
+    source,
+    loading,
+    error,
+  };
 }
@@ -45,6 +45,11 @@ export const UNI_V3_ADDRESSES = {
     process.env.NEXT_PUBLIC_LIMIT_ORDER_REGISTRY ??
     "0xcd7f266E3C0D0771897aAF74BEB38072D66402A0",
 
+  // Canonical Multicall3; its bytecode is also borrowed for state-override probes
+  multicall3:
+    process.env.NEXT_PUBLIC_MULTICALL3 ??
+    "0xcA11bde05977b3631167028862bE2a173976CA11",
+
   // Wrapped native
   weth:
     process.env.NEXT_PUBLIC_WRAPPED_NATIVE ??
@@ -21,3 +21,15 @@ export const hemi = {
     },
   },
 } as const;
+
+/**
+ * Explorer link for a tx / address / token, or null when no explorer URL is
+ * configured.
+ */
+export function explorerUrl(
+  kind: "tx" | "address" | "token",
+  value: string
+): string | null {
+  const base = hemi.blockExplorers.default.url.replace(/\/+$/, "");
+  return base ? `${base}/${kind}/${value}` : null;
+}
@@ -0,0 +1,39 @@
+// src/lib/math/fullMath.ts
+// BigInt ports of FullMath / UnsafeMath. BigInt never overflows, so these
+// only need to reproduce the contracts' rounding.
+
+export const MAX_UINT256 = (1n << 256n) - 1n
+export const MAX_UINT160 = (1n << 160n) - 1n
+export const MAX_UINT128 = (1n << 128n) - 1n
+
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator
+}
+
+export function mulDivRoundingUp(
+  a: bigint,
+  b: bigint,
+  denominator: bigint
+): bigint {
+  const product = a * b
+  const result = product / denominator
+  return product % denominator === 0n ? result : result + 1n
+}
+
+export function divRoundingUp(x: bigint, y: bigint): bigint {
+  const result = x / y
+  return x % y === 0n ? result : result + 1n
+}
+
+// floor(sqrt(x)), Babylonian method
+export function sqrt(x: bigint): bigint {
+  if (x < 0n) throw new Error('sqrt of negative number')
+  if (x < 2n) return x
+  let r = x
+  let next = (r + x / r) / 2n
+  while (next < r) {
+    r = next
+    next = (r + x / r) / 2n
+  }
+  return r
+}
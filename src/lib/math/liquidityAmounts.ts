@@ -0,0 +1,94 @@
+// src/lib/math/liquidityAmounts.ts
+// Port of LiquidityAmounts.sol (periphery): liquidity for token amounts over a
+// price range, and the amounts a given liquidity is worth.
+import { MAX_UINT128, mulDiv } from './fullMath'
+
+const Q96 = 1n << 96n
+
+function sorted(a: bigint, b: bigint): [bigint, bigint] {
+  return a > b ? [b, a] : [a, b]
+}
+
+function toUint128(x: bigint): bigint {
+  if (x > MAX_UINT128) throw new Error('Liquidity overflows uint128')
+  return x
+}
+
+export function getLiquidityForAmount0(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint
+): bigint {
+  const [a, b] = sorted(sqrtRatioAX96, sqrtRatioBX96)
+  const intermediate = mulDiv(a, b, Q96)
+  return toUint128(mulDiv(amount0, intermediate, b - a))
+}
+
+export function getLiquidityForAmount1(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount1: bigint
+): bigint {
+  const [a, b] = sorted(sqrtRatioAX96, sqrtRatioBX96)
+  return toUint128(mulDiv(amount1, Q96, b - a))
+}
+
+/**
+ * Max liquidity that `amount0` and `amount1` can mint over [A, B] at the
+ * current price; the scarcer side decides when the price is inside the range.
+ */
+export function getLiquidityForAmounts(
+  sqrtRatioX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint,
+  amount1: bigint
+): bigint {
+  const [a, b] = sorted(sqrtRatioAX96, sqrtRatioBX96)
+
+  if (sqrtRatioX96 <= a) return getLiquidityForAmount0(a, b, amount0)
+  if (sqrtRatioX96 < b) {
+    const liquidity0 = getLiquidityForAmount0(sqrtRatioX96, b, amount0)
+    const liquidity1 = getLiquidityForAmount1(a, sqrtRatioX96, amount1)
+    return liquidity0 < liquidity1 ? liquidity0 : liquidity1
+  }
+  return getLiquidityForAmount1(a, b, amount1)
+}
+
+export function getAmount0ForLiquidity(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): bigint {
+  const [a, b] = sorted(sqrtRatioAX96, sqrtRatioBX96)
+  return mulDiv(liquidity << 96n, b - a, b) / a
+}
+
+export function getAmount1ForLiquidity(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): bigint {
+  const [a, b] = sorted(sqrtRatioAX96, sqrtRatioBX96)
+  return mulDiv(liquidity, b - a, Q96)
+}
+
+export function getAmountsForLiquidity(
+  sqrtRatioX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [a, b] = sorted(sqrtRatioAX96, sqrtRatioBX96)
+
+  if (sqrtRatioX96 <= a) {
+    return { amount0: getAmount0ForLiquidity(a, b, liquidity), amount1: 0n }
+  }
+  if (sqrtRatioX96 < b) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtRatioX96, b, liquidity),
+      amount1: getAmount1ForLiquidity(a, sqrtRatioX96, liquidity),
+    }
+  }
+  return { amount0: 0n, amount1: getAmount1ForLiquidity(a, b, liquidity) }
+}
@@ -1,3 +1,5 @@
+import { sqrt } from './fullMath'
+
 export const Q96 = 2n ** 96n
 export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0=18, decimals1=18) {
   // price = (sqrtPriceX96^2 / 2^192) * 10^(decimals0 - decimals1)
@@ -5,4 +7,23 @@ export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0=18, decimals
   const denom = Q96 * Q96
   const ratio = Number(num) / Number(denom)
   return ratio * 10 ** (decimals0 - decimals1)
-}
\ No newline at end of file
+}
+
+const LN_1_0001 = Math.log(1.0001)
+
+// price of token1 per token0 at a tick, in human units
+export function priceFromTick(tick: number, decimals0 = 18, decimals1 = 18) {
+  return Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1)
+}
+
+// inverse of priceFromTick (unrounded; align to tickSpacing before use)
+export function tickFromPrice(price: number, decimals0 = 18, decimals1 = 18) {
+  if (!Number.isFinite(price) || price <= 0) return NaN
+  return Math.log(price / Math.pow(10, decimals0 - decimals1)) / LN_1_0001
+}
+
+// sqrtPriceX96 for a price of amount1 / amount0 (raw units), as the SDK's encodeSqrtRatioX96
+export function encodeSqrtRatioX96(amount1: bigint, amount0: bigint) {
+  if (amount0 <= 0n) throw new Error('amount0 must be positive')
+  return sqrt((amount1 << 192n) / amount0)
+}
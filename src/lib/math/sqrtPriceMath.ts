@@ -0,0 +1,130 @@
+// src/lib/math/sqrtPriceMath.ts
+// Port of SqrtPriceMath.sol (token deltas between prices, next price from an amount).
+import {
+  MAX_UINT160,
+  divRoundingUp,
+  mulDiv,
+  mulDivRoundingUp,
+} from './fullMath'
+
+const Q96 = 1n << 96n
+const MAX_UINT256 = (1n << 256n) - 1n
+
+export function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === 0n) return sqrtPX96
+  const numerator1 = liquidity << 96n
+  const product = amount * sqrtPX96
+
+  if (add) {
+    // The contract falls back to a less precise form when amount * price overflows
+    if (product <= MAX_UINT256) {
+      const denominator = numerator1 + product
+      if (denominator >= numerator1 && denominator <= MAX_UINT256) {
+        return mulDivRoundingUp(numerator1, sqrtPX96, denominator)
+      }
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount)
+  }
+
+  if (numerator1 <= product)
+    throw new Error('Insufficient liquidity for output')
+  return mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product)
+}
+
+export function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) {
+    const quotient =
+      amount <= MAX_UINT160
+        ? (amount << 96n) / liquidity
+        : mulDiv(amount, Q96, liquidity)
+    return sqrtPX96 + quotient
+  }
+
+  const quotient =
+    amount <= MAX_UINT160
+      ? divRoundingUp(amount << 96n, liquidity)
+      : mulDivRoundingUp(amount, Q96, liquidity)
+  if (sqrtPX96 <= quotient) throw new Error('Insufficient liquidity for output')
+  return sqrtPX96 - quotient
+}
+
+export function getNextSqrtPriceFromInput(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(
+        sqrtPX96,
+        liquidity,
+        amountIn,
+        true
+      )
+}
+
+export function getNextSqrtPriceFromOutput(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amountOut: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(
+        sqrtPX96,
+        liquidity,
+        amountOut,
+        false
+      )
+    : getNextSqrtPriceFromAmount0RoundingUp(
+        sqrtPX96,
+        liquidity,
+        amountOut,
+        false
+      )
+}
+
+export function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+  }
+  const numerator1 = liquidity << 96n
+  const numerator2 = sqrtRatioBX96 - sqrtRatioAX96
+
+  return roundUp
+    ? divRoundingUp(
+        mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96),
+        sqrtRatioAX96
+      )
+    : mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96
+}
+
+export function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+  }
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+    : mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+}
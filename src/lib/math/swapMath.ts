@@ -0,0 +1,139 @@
+// src/lib/math/swapMath.ts
+// Port of SwapMath.computeSwapStep: one swap step within a single tick range.
+import { mulDiv, mulDivRoundingUp } from './fullMath'
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+  getNextSqrtPriceFromInput,
+  getNextSqrtPriceFromOutput,
+} from './sqrtPriceMath'
+
+const FEE_DENOMINATOR = 1_000_000n
+
+export type SwapStep = {
+  sqrtRatioNextX96: bigint
+  amountIn: bigint
+  amountOut: bigint
+  feeAmount: bigint
+}
+
+/**
+ * `amountRemaining` is positive for exact input and negative for exact output,
+ * as in the contract. `feePips` is the pool fee in hundredths of a bip.
+ */
+export function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): SwapStep {
+  const fee = BigInt(feePips)
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96
+  const exactIn = amountRemaining >= 0n
+
+  let sqrtRatioNextX96: bigint
+  let amountIn = 0n
+  let amountOut = 0n
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(
+      amountRemaining,
+      FEE_DENOMINATOR - fee,
+      FEE_DENOMINATOR
+    )
+    amountIn = zeroForOne
+      ? getAmount0Delta(
+          sqrtRatioTargetX96,
+          sqrtRatioCurrentX96,
+          liquidity,
+          true
+        )
+      : getAmount1Delta(
+          sqrtRatioCurrentX96,
+          sqrtRatioTargetX96,
+          liquidity,
+          true
+        )
+    sqrtRatioNextX96 =
+      amountRemainingLessFee >= amountIn
+        ? sqrtRatioTargetX96
+        : getNextSqrtPriceFromInput(
+            sqrtRatioCurrentX96,
+            liquidity,
+            amountRemainingLessFee,
+            zeroForOne
+          )
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(
+          sqrtRatioTargetX96,
+          sqrtRatioCurrentX96,
+          liquidity,
+          false
+        )
+      : getAmount0Delta(
+          sqrtRatioCurrentX96,
+          sqrtRatioTargetX96,
+          liquidity,
+          false
+        )
+    sqrtRatioNextX96 =
+      -amountRemaining >= amountOut
+        ? sqrtRatioTargetX96
+        : getNextSqrtPriceFromOutput(
+            sqrtRatioCurrentX96,
+            liquidity,
+            -amountRemaining,
+            zeroForOne
+          )
+  }
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96
+
+  if (zeroForOne) {
+    if (!(max && exactIn)) {
+      amountIn = getAmount0Delta(
+        sqrtRatioNextX96,
+        sqrtRatioCurrentX96,
+        liquidity,
+        true
+      )
+    }
+    if (!(max && !exactIn)) {
+      amountOut = getAmount1Delta(
+        sqrtRatioNextX96,
+        sqrtRatioCurrentX96,
+        liquidity,
+        false
+      )
+    }
+  } else {
+    if (!(max && exactIn)) {
+      amountIn = getAmount1Delta(
+        sqrtRatioCurrentX96,
+        sqrtRatioNextX96,
+        liquidity,
+        true
+      )
+    }
+    if (!(max && !exactIn)) {
+      amountOut = getAmount0Delta(
+        sqrtRatioCurrentX96,
+        sqrtRatioNextX96,
+        liquidity,
+        false
+      )
+    }
+  }
+
+  // Exact output never hands out more than asked for
+  if (!exactIn && amountOut > -amountRemaining) amountOut = -amountRemaining
+
+  const feeAmount =
+    exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96
+      ? amountRemaining - amountIn // the remainder of the input is all fee
+      : mulDivRoundingUp(amountIn, fee, FEE_DENOMINATOR - fee)
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount }
+}
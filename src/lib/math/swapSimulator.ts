@@ -0,0 +1,183 @@
+// src/lib/math/swapSimulator.ts
+// Off-chain replay of UniswapV3Pool.swap over a snapshot of initialized ticks.
+import { computeSwapStep } from './swapMath'
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+} from './tickMath'
+
+export type PopulatedTick = {
+  tick: number
+  liquidityNet: bigint
+}
+
+export type PoolSnapshot = {
+  sqrtPriceX96: bigint
+  tick: number
+  liquidity: bigint
+  fee: number
+  tickSpacing: number
+  // initialized ticks, sorted ascending, covering bitmap words minWord..maxWord
+  ticks: PopulatedTick[]
+  minWord: number
+  maxWord: number
+}
+
+export type SimulatedSwap = {
+  amountIn: bigint
+  amountOut: bigint
+  sqrtPriceX96After: bigint
+  tickAfter: number
+  initializedTicksCrossed: number
+}
+
+/**
+ * Thrown when the swap walks into a tick bitmap word that isn't loaded;
+ * callers can fetch `word` and retry.
+ */
+export class MissingTickWordError extends Error {
+  constructor(public word: number) {
+    super(`Tick data for word ${word} not loaded`)
+    this.name = 'MissingTickWordError'
+  }
+}
+
+// TickBitmap.nextInitializedTickWithinOneWord over the sorted tick list
+function nextInitializedTickWithinOneWord(
+  pool: PoolSnapshot,
+  tick: number,
+  lte: boolean
+): [number, boolean] {
+  const spacing = pool.tickSpacing
+  const compressed = Math.floor(tick / spacing)
+
+  if (lte) {
+    const word = compressed >> 8
+    if (word < pool.minWord || word > pool.maxWord) {
+      throw new MissingTickWordError(word)
+    }
+    const wordStart = word << 8
+    for (let i = pool.ticks.length - 1; i >= 0; i--) {
+      const c = pool.ticks[i].tick / spacing
+      if (c > compressed) continue
+      if (c < wordStart) break
+      return [pool.ticks[i].tick, true]
+    }
+    return [wordStart * spacing, false]
+  }
+
+  const next = compressed + 1
+  const word = next >> 8
+  if (word < pool.minWord || word > pool.maxWord) {
+    throw new MissingTickWordError(word)
+  }
+  const wordEnd = (word << 8) + 255
+  for (const t of pool.ticks) {
+    const c = t.tick / spacing
+    if (c < next) continue
+    if (c > wordEnd) break
+    return [t.tick, true]
+  }
+  return [wordEnd * spacing, false]
+}
+
+/**
+ * Simulates a swap through one pool. `amountSpecified` > 0 is an exact input,
+ * < 0 an exact output (same convention as the pool contract).
+ */
+export function simulateSwap(
+  pool: PoolSnapshot,
+  zeroForOne: boolean,
+  amountSpecified: bigint
+): SimulatedSwap {
+  if (amountSpecified === 0n) throw new Error('Amount must be non-zero')
+
+  const exactInput = amountSpecified > 0n
+  const sqrtPriceLimitX96 = zeroForOne
+    ? MIN_SQRT_RATIO + 1n
+    : MAX_SQRT_RATIO - 1n
+  const liquidityNetAt = new Map(
+    pool.ticks.map((t) => [t.tick, t.liquidityNet])
+  )
+
+  let amountRemaining = amountSpecified
+  let amountCalculated = 0n
+  let sqrtPriceX96 = pool.sqrtPriceX96
+  let tick = pool.tick
+  let liquidity = pool.liquidity
+  let initializedTicksCrossed = 0
+
+  while (amountRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const sqrtPriceStartX96 = sqrtPriceX96
+
+    let [tickNext, initialized] = nextInitializedTickWithinOneWord(
+      pool,
+      tick,
+      zeroForOne
+    )
+    if (tickNext < MIN_TICK) tickNext = MIN_TICK
+    else if (tickNext > MAX_TICK) tickNext = MAX_TICK
+
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext)
+    const target = (
+      zeroForOne
+        ? sqrtPriceNextX96 < sqrtPriceLimitX96
+        : sqrtPriceNextX96 > sqrtPriceLimitX96
+    )
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96
+
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      target,
+      liquidity,
+      amountRemaining,
+      pool.fee
+    )
+    sqrtPriceX96 = step.sqrtRatioNextX96
+
+    if (exactInput) {
+      amountRemaining -= step.amountIn + step.feeAmount
+      amountCalculated -= step.amountOut
+    } else {
+      amountRemaining += step.amountOut
+      amountCalculated += step.amountIn + step.feeAmount
+    }
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      if (initialized) {
+        const net = liquidityNetAt.get(tickNext) ?? 0n
+        liquidity += zeroForOne ? -net : net
+        initializedTicksCrossed++
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96)
+    }
+  }
+
+  // Same as the quoter: a partial fill means the pools can't cover the trade
+  if (!exactInput && amountRemaining !== 0n) {
+    throw new Error('Not enough liquidity for this output amount')
+  }
+
+  return exactInput
+    ? {
+        amountIn: amountSpecified - amountRemaining,
+        amountOut: -amountCalculated,
+        sqrtPriceX96After: sqrtPriceX96,
+        tickAfter: tick,
+        initializedTicksCrossed,
+      }
+    : {
+        amountIn: amountCalculated,
+        amountOut: -amountSpecified + amountRemaining,
+        sqrtPriceX96After: sqrtPriceX96,
+        tickAfter: tick,
+        initializedTicksCrossed,
+      }
+}
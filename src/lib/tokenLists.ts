@@ -0,0 +1,287 @@
+// src/lib/tokenLists.ts
+import bundled from './tokenlist.json'
+import type { TokenList } from './tokens'
+
+type ListToken = TokenList['tokens'][number]
+
+export const BUNDLED_LIST_ID = 'bundled'
+// Remote lists older than this are re-fetched on load
+export const LIST_REFRESH_MS = 60 * 60_000
+
+// Where a subscribed list comes from. Pasted lists have no remote to refresh from.
+export type ListSource =
+  | { type: 'bundled' }
+  | { type: 'url'; url: string }
+  | { type: 'json' }
+
+export type ListSubscription = {
+  id: string
+  source: ListSource
+  enabled: boolean
+  list: TokenList | null
+  // newer version fetched but not applied yet (see diffTokenLists)
+  pending: TokenList | null
+  error: string | null
+  fetchedAt: number
+}
+
+// ---- schema validation (Uniswap token list schema) ----
+
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/
+const MAX_TOKENS = 10_000
+
+function isObj(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isUint(v: unknown) {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0
+}
+
+function isUri(v: unknown) {
+  if (typeof v !== 'string' || !v) return false
+  return /^(https?|ipfs|ipns|data):/i.test(v)
+}
+
+function checkToken(t: unknown, at: string, errors: string[]) {
+  if (!isObj(t)) {
+    errors.push(`${at}: not an object`)
+    return
+  }
+  if (!isUint(t.chainId) || t.chainId < 1) errors.push(`${at}.chainId: must be a positive integer`)
+  if (typeof t.address !== 'string' || !ADDRESS_RE.test(t.address)) errors.push(`${at}.address: not a 20-byte hex address`)
+  if (!isUint(t.decimals) || t.decimals > 255) errors.push(`${at}.decimals: must be an integer 0–255`)
+  if (typeof t.name !== 'string' || t.name.length > 60) errors.push(`${at}.name: must be a string of at most 60 characters`)
+  if (typeof t.symbol !== 'string' || !t.symbol.length || t.symbol.length > 20) errors.push(`${at}.symbol: must be 1–20 characters`)
+  if (t.logoURI !== undefined && !isUri(t.logoURI)) errors.push(`${at}.logoURI: not a URI`)
+  if (t.tags !== undefined && (!Array.isArray(t.tags) || t.tags.length > 10 || t.tags.some((x: unknown) => typeof x !== 'string'))) {
+    errors.push(`${at}.tags: must be at most 10 strings`)
+  }
+  if (t.extensions !== undefined && !isObj(t.extensions)) errors.push(`${at}.extensions: must be an object`)
+}
+
+/**
+ * Validates untrusted JSON against the token list schema. Errors are capped so
+ * a badly broken list doesn't produce thousands of lines.
+ */
+export function validateTokenList(data: unknown): { ok: true; list: TokenList } | { ok: false; errors: string[] } {
+  const errors: string[] = []
+  if (!isObj(data)) return { ok: false, errors: ['List is not a JSON object'] }
+
+  if (typeof data.name !== 'string' || !data.name.length || data.name.length > 30) errors.push('name: must be 1–30 characters')
+  if (typeof data.timestamp !== 'string' || Number.isNaN(Date.parse(data.timestamp))) errors.push('timestamp: not an ISO date-time')
+  const v = data.version
+  if (!isObj(v) || !isUint(v.major) || !isUint(v.minor) || !isUint(v.patch)) errors.push('version: needs non-negative integer major/minor/patch')
+  if (data.logoURI !== undefined && !isUri(data.logoURI)) errors.push('logoURI: not a URI')
+
+  if (!Array.isArray(data.tokens)) {
+    errors.push('tokens: must be an array')
+  } else if (!data.tokens.length || data.tokens.length > MAX_TOKENS) {
+    errors.push(`tokens: must hold 1–${MAX_TOKENS} entries`)
+  } else {
+    const seen = new Set<string>()
+    data.tokens.forEach((t: unknown, i: number) => {
+      if (errors.length >= 20) return
+      checkToken(t, `tokens[${i}]`, errors)
+      if (isObj(t) && typeof t.address === 'string') {
+        const key = `${t.chainId}:${t.address.toLowerCase()}`
+        if (seen.has(key)) errors.push(`tokens[${i}]: duplicate of ${t.address} on chain ${t.chainId}`)
+        seen.add(key)
+      }
+    })
+  }
+
+  return errors.length ? { ok: false, errors: errors.slice(0, 20) } : { ok: true, list: data as TokenList }
+}
+
+export function parseTokenListJson(text: string) {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false as const, errors: ['Not valid JSON'] }
+  }
+  return validateTokenList(data)
+}
+
+export async function fetchTokenList(url: string): Promise<TokenList> {
+  if (!/^https:\/\//i.test(url)) throw new Error('Token list URL must use https')
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`HTTP ${res.status} fetching token list`)
+  const result = validateTokenList(await res.json())
+  if (!result.ok) throw new Error(`Invalid token list: ${result.errors[0]}`)
+  return result.list
+}
+
+// ---- versions and diffs ----
+
+export function versionLabel(v: TokenList['version']) {
+  return `${v.major}.${v.minor}.${v.patch}`
+}
+
+export function compareVersions(a: TokenList['version'], b: TokenList['version']) {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch
+}
+
+export type TokenListDiff = {
+  added: ListToken[]
+  removed: ListToken[]
+  changed: { token: ListToken; fields: string[] }[]
+}
+
+const DIFF_FIELDS = ['symbol', 'name', 'decimals', 'logoURI'] as const
+
+export function diffTokenLists(prev: TokenList, next: TokenList): TokenListDiff {
+  const key = (t: ListToken) => `${t.chainId}:${t.address.toLowerCase()}`
+  const before = new Map(prev.tokens.map(t => [key(t), t]))
+  const after = new Map(next.tokens.map(t => [key(t), t]))
+
+  const diff: TokenListDiff = { added: [], removed: [], changed: [] }
+  after.forEach((t, k) => {
+    const old = before.get(k)
+    if (!old) {
+      diff.added.push(t)
+      return
+    }
+    const fields = DIFF_FIELDS.filter(f => old[f] !== t[f])
+    if (fields.length) diff.changed.push({ token: t, fields: [...fields] })
+  })
+  before.forEach((t, k) => {
+    if (!after.has(k)) diff.removed.push(t)
+  })
+  return diff
+}
+
+// ---- merging ----
+
+export type TokenConflict = {
+  address: string
+  // list the kept entry came from
+  kept: { listName: string; symbol: string; decimals: number }
+  others: { listName: string; symbol: string; decimals: number }[]
+}
+
+// Same symbol used by different addresses across lists (a common impersonation vector)
+export type SymbolClash = {
+  symbol: string
+  entries: { listName: string; address: string }[]
+}
+
+/**
+ * Merges lists for one chain. Earlier lists take precedence: when the same
+ * address appears again, the first entry wins and any disagreement on symbol
+ * or decimals is reported as a conflict.
+ */
+export function mergeTokenLists(lists: TokenList[], chainId: number) {
+  const byAddr = new Map<string, { token: ListToken; listName: string }>()
+  const conflicts = new Map<string, TokenConflict>()
+  const bySymbol = new Map<string, Map<string, string>>()
+
+  for (const list of lists) {
+    for (const t of list.tokens) {
+      if (t.chainId !== chainId) continue
+      const addr = t.address.toLowerCase()
+
+      const sym = t.symbol.toLowerCase()
+      const owners = bySymbol.get(sym) ?? new Map<string, string>()
+      if (!owners.has(addr)) owners.set(addr, list.name)
+      bySymbol.set(sym, owners)
+
+      const existing = byAddr.get(addr)
+      if (!existing) {
+        byAddr.set(addr, { token: t, listName: list.name })
+        continue
+      }
+      if (existing.token.symbol === t.symbol && existing.token.decimals === t.decimals) continue
+
+      const conflict = conflicts.get(addr) ?? {
+        address: existing.token.address,
+        kept: { listName: existing.listName, symbol: existing.token.symbol, decimals: existing.token.decimals },
+        others: [],
+      }
+      conflict.others.push({ listName: list.name, symbol: t.symbol, decimals: t.decimals })
+      conflicts.set(addr, conflict)
+    }
+  }
+
+  const symbolClashes: SymbolClash[] = []
+  bySymbol.forEach((owners, symbol) => {
+    // only across lists; a single list may legitimately reuse a symbol
+    if (owners.size < 2 || new Set(owners.values()).size < 2) return
+    symbolClashes.push({
+      symbol: byAddr.get(Array.from(owners.keys())[0])!.token.symbol || symbol,
+      entries: Array.from(owners, ([address, listName]) => ({ address, listName })),
+    })
+  })
+
+  return {
+    tokens: Array.from(byAddr.values(), v => v.token),
+    conflicts: Array.from(conflicts.values()),
+    symbolClashes,
+  }
+}
+
+// ---- subscriptions (persisted in localStorage) ----
+
+const SUBSCRIPTIONS_KEY = 'tokenLists:subscriptions'
+
+export function bundledSubscription(): ListSubscription {
+  return {
+    id: BUNDLED_LIST_ID,
+    source: { type: 'bundled' },
+    enabled: true,
+    list: bundled as TokenList,
+    pending: null,
+    error: null,
+    fetchedAt: 0,
+  }
+}
+
+/**
+ * Saved subscriptions in precedence order. The bundled list is always present
+ * and always reflects the current build, whatever was stored for it.
+ */
+export function loadSubscriptions(): ListSubscription[] {
+  let stored: ListSubscription[] = []
+  if (typeof window !== 'undefined') {
+    try {
+      const raw = window.localStorage.getItem(SUBSCRIPTIONS_KEY)
+      stored = raw ? (JSON.parse(raw) as ListSubscription[]) : []
+    } catch {
+      stored = []
+    }
+  }
+
+  const subs = stored
+    .filter(s => s && typeof s.id === 'string' && s.source)
+    .map(s => (s.id === BUNDLED_LIST_ID ? { ...bundledSubscription(), enabled: s.enabled } : s))
+  if (!subs.some(s => s.id === BUNDLED_LIST_ID)) subs.unshift(bundledSubscription())
+  return subs
+}
+
+function trySave(subs: ListSubscription[]) {
+  try {
+    window.localStorage.setItem(SUBSCRIPTIONS_KEY, JSON.stringify(subs))
+    return true
+  } catch (e) {
+    console.warn('[tokenLists] saving subscriptions failed', e)
+    return false
+  }
+}
+
+/**
+ * Persists subscriptions; never throws. When full lists don't fit in
+ * localStorage (quota), remote lists are stored as subscriptions only and
+ * fetched again on the next load. Failing that, changes last until reload.
+ */
+export function saveSubscriptions(subs: ListSubscription[]) {
+  if (typeof window === 'undefined') return
+  // the bundled list ships with the app; only its position/enabled flag is stored
+  const slim = subs.map(s => (s.id === BUNDLED_LIST_ID ? { ...s, list: null } : s))
+  if (trySave(slim)) return
+
+  const metaOnly = slim.map(s =>
+    s.source.type === 'url' ? { ...s, list: null, pending: null, fetchedAt: 0 } : s
+  )
+  trySave(metaOnly)
+}
@@ -1,4 +1,5 @@
 import raw from './tokenlist.json'
+import { getAddress, hexToString, isAddress, type Hex } from 'viem'
 
 export type TokenList = {
   name: string
@@ -11,6 +12,8 @@ export type TokenList = {
     logoURI?: string
     name: string
     symbol: string
+    // e.g. "fee-on-transfer", "rebasing"
+    tags?: string[]
   }>
 }
 
@@ -27,4 +30,103 @@ export function mapByAddress(chainId: number) {
   return map
 }
 
-export type Token = ReturnType<typeof tokensForChain>[number]
\ No newline at end of file
+// `imported`: added by the user by address, not vetted by the token list
+export type Token = ReturnType<typeof tokensForChain>[number] & {
+  imported?: boolean
+}
+
+// Pseudo-address for the chain's native currency (ETH on Hemi).
+// Swap code maps it to the wrapped token for routing/quoting.
+export const NATIVE_TOKEN_ADDRESS =
+  '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' as `0x${string}`
+
+export function isNativeToken(addr?: string | null) {
+  return !!addr && addr.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase()
+}
+
+export function nativeToken(chainId: number): Token {
+  return {
+    address: NATIVE_TOKEN_ADDRESS,
+    chainId,
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+    logoURI: tokensForChain(chainId).find(t => t.symbol.toLowerCase() === 'weth')?.logoURI,
+  }
+}
+
+// ---- user-imported tokens ----
+
+const erc20MetadataAbi = [
+  { type: 'function', name: 'name', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { type: 'function', name: 'symbol', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { type: 'function', name: 'decimals', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint8' }] },
+] as const
+
+// Some older tokens (e.g. MKR) return name/symbol as bytes32
+const erc20Bytes32MetadataAbi = [
+  { type: 'function', name: 'name', stateMutability: 'view', inputs: [], outputs: [{ type: 'bytes32' }] },
+  { type: 'function', name: 'symbol', stateMutability: 'view', inputs: [], outputs: [{ type: 'bytes32' }] },
+] as const
+
+async function readStringField(client: any, address: `0x${string}`, fn: 'name' | 'symbol') {
+  try {
+    return (await client.readContract({ address, abi: erc20MetadataAbi, functionName: fn })) as string
+  } catch {
+    const raw = (await client.readContract({ address, abi: erc20Bytes32MetadataAbi, functionName: fn })) as Hex
+    return hexToString(raw, { size: 32 }).replace(/\0+$/, '')
+  }
+}
+
+/**
+ * Reads name/symbol/decimals of an ERC-20 that isn't on the token list.
+ * Throws if the address has no code or doesn't answer like a token.
+ */
+export async function fetchTokenMetadata(client: any, chainId: number, addr: string): Promise<Token> {
+  if (!isAddress(addr)) throw new Error('Not a valid address')
+  const address = getAddress(addr)
+
+  const code = await client.getCode({ address })
+  if (!code || code === '0x') throw new Error('No contract at this address')
+
+  const [name, symbol, decimals] = await Promise.all([
+    readStringField(client, address, 'name').catch(() => ''),
+    readStringField(client, address, 'symbol'),
+    client.readContract({ address, abi: erc20MetadataAbi, functionName: 'decimals' }) as Promise<number>,
+  ]).catch(() => {
+    throw new Error('Address does not look like an ERC-20 token')
+  })
+
+  if (!symbol.trim()) throw new Error('Token has no symbol')
+
+  return {
+    address,
+    chainId,
+    decimals: Number(decimals),
+    name: name.trim() || symbol.trim(),
+    symbol: symbol.trim(),
+    imported: true,
+  }
+}
+
+function importedKey(chainId: number) {
+  return `importedTokens:${chainId}`
+}
+
+export function loadImportedTokens(chainId: number): Token[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = window.localStorage.getItem(importedKey(chainId))
+    const list = raw ? (JSON.parse(raw) as Token[]) : []
+    return list
+      .filter(t => t && isAddress(t.address) && t.chainId === chainId)
+      .map(t => ({ ...t, imported: true }))
+  } catch {
+    return []
+  }
+}
+
+export function saveImportedTokens(chainId: number, tokens: Token[]) {
+  if (typeof window === 'undefined') return
+  window.localStorage.setItem(importedKey(chainId), JSON.stringify(tokens))
+}
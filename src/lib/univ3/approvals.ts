@@ -0,0 +1,154 @@
+// src/lib/univ3/approvals.ts
+import type { Address } from "viem";
+import { erc20Abi } from "viem";
+import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import { permit2Abi } from "./permit2";
+
+// Batch revocation: zeroes the Permit2 allowance of every (token, spender) pair
+export const permit2LockdownAbi = [
+  {
+    type: "function",
+    name: "lockdown",
+    stateMutability: "nonpayable",
+    inputs: [
+      {
+        name: "approvals",
+        type: "tuple[]",
+        components: [
+          { name: "token", type: "address" },
+          { name: "spender", type: "address" },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// Calldata per multicall request; a full token list × spenders is a few
+// hundred calls, so this keeps it to a handful of eth_calls
+const MULTICALL_BATCH_BYTES = 16_384;
+
+export type Spender = { address: Address; label: string };
+
+/**
+ * Contracts from UNI_V3_ADDRESSES that may hold token allowances. All of them
+ * are scanned for ERC-20 allowances; all but Permit2 itself for Permit2
+ * sub-allowances.
+ */
+export function knownSpenders(): Spender[] {
+  const a = UNI_V3_ADDRESSES;
+  const list: Spender[] = [
+    { address: a.permit2 as Address, label: "Permit2" },
+    { address: a.universalRouter as Address, label: "Universal Router" },
+    { address: a.nfpm as Address, label: "Position Manager" },
+    { address: a.swapRouter as Address, label: "SwapRouter02" },
+    { address: a.limitOrderRegistry as Address, label: "Limit Orders" },
+    { address: a.v3Migrator as Address, label: "V3 Migrator" },
+    { address: a.v3Staker as Address, label: "V3 Staker" },
+  ];
+  // nfpm and positionManager may be configured to the same contract
+  return list.filter(
+    (s, i) =>
+      list.findIndex(
+        (x) => x.address.toLowerCase() === s.address.toLowerCase()
+      ) === i
+  );
+}
+
+export type TokenAllowance = {
+  token: Address;
+  spender: Spender;
+  // "erc20": token.allowance(owner, spender); "permit2": Permit2's sub-allowance
+  kind: "erc20" | "permit2";
+  amount: bigint;
+  // unix seconds; Permit2 only
+  expiration?: number;
+  nonce?: number;
+};
+
+export function isExpired(a: TokenAllowance, now = Date.now() / 1000) {
+  return a.kind === "permit2" && (a.expiration ?? 0) < now;
+}
+
+export function allowanceKey(a: TokenAllowance) {
+  return `${a.kind}:${a.token}:${a.spender.address}`.toLowerCase();
+}
+
+/**
+ * Reads every non-zero allowance `owner` has granted for `tokens` to the known
+ * spenders, via Multicall3. Permit2 sub-allowances are reported even when
+ * expired, since their amount is still on record until revoked.
+ */
+export async function scanAllowances(
+  client: any,
+  { owner, tokens }: { owner: Address; tokens: Address[] }
+): Promise<TokenAllowance[]> {
+  const spenders = knownSpenders();
+  const permit2 = UNI_V3_ADDRESSES.permit2 as Address;
+  const subSpenders = spenders.filter(
+    (s) => s.address.toLowerCase() !== permit2.toLowerCase()
+  );
+
+  const erc20Pairs = tokens.flatMap((token) =>
+    spenders.map((spender) => ({ token, spender }))
+  );
+  const permit2Pairs = tokens.flatMap((token) =>
+    subSpenders.map((spender) => ({ token, spender }))
+  );
+
+  const [erc20Results, permit2Results] = await Promise.all([
+    client.multicall({
+      multicallAddress: UNI_V3_ADDRESSES.multicall3 as Address,
+      batchSize: MULTICALL_BATCH_BYTES,
+      allowFailure: true,
+      contracts: erc20Pairs.map(({ token, spender }) => ({
+        address: token,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [owner, spender.address],
+      })),
+    }),
+    client.multicall({
+      multicallAddress: UNI_V3_ADDRESSES.multicall3 as Address,
+      batchSize: MULTICALL_BATCH_BYTES,
+      allowFailure: true,
+      contracts: permit2Pairs.map(({ token, spender }) => ({
+        address: permit2,
+        abi: permit2Abi,
+        functionName: "allowance",
+        args: [owner, token, spender.address],
+      })),
+    }),
+  ]);
+
+  const out: TokenAllowance[] = [];
+
+  erc20Pairs.forEach(({ token, spender }, i) => {
+    const r = erc20Results[i];
+    if (r?.status !== "success") return;
+    const amount = r.result as bigint;
+    if (amount > 0n) out.push({ token, spender, kind: "erc20", amount });
+  });
+
+  permit2Pairs.forEach(({ token, spender }, i) => {
+    const r = permit2Results[i];
+    if (r?.status !== "success") return;
+    const [amount, expiration, nonce] = r.result as readonly [
+      bigint,
+      number,
+      number
+    ];
+    if (amount > 0n) {
+      out.push({
+        token,
+        spender,
+        kind: "permit2",
+        amount,
+        expiration: Number(expiration),
+        nonce: Number(nonce),
+      });
+    }
+  });
+
+  return out;
+}
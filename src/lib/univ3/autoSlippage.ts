@@ -0,0 +1,156 @@
+// src/lib/univ3/autoSlippage.ts
+import type { Address } from "viem";
+
+// Never below the old fixed default: tighter tolerances already revert
+export const AUTO_SLIPPAGE_MIN_BPS = 50; // 0.50%
+export const AUTO_SLIPPAGE_MAX_BPS = 300; // 3.00%
+
+const BASE_BPS = 10;
+const PER_EXTRA_HOP_BPS = 5;
+// Higher tiers are chosen for more volatile pairs; used when there is no OHLCV data
+const FEE_TIER_BPS: Record<number, number> = {
+  100: 0,
+  500: 5,
+  3000: 20,
+  10000: 50,
+};
+// Share of the price impact added on top: big trades are more exposed to
+// anyone trading the same pools just before them
+const IMPACT_SHARE = 0.1;
+// Multiples of the 5-minute σ covered by the tolerance
+const VOLATILITY_SIGMAS = 2;
+
+const VOLATILITY_TTL_MS = 5 * 60_000;
+const volatilityCache = new Map<
+  string,
+  { t: number; sigmaPct: number | null }
+>();
+
+export type AutoSlippage = {
+  bps: number;
+  // one line per factor, in the order they were added
+  reasons: string[];
+};
+
+function pct(bps: number) {
+  return `${(bps / 100).toFixed(2)}%`;
+}
+
+/**
+ * Standard deviation (in %) of 5-minute log returns over the last ~4 hours,
+ * from the Gecko OHLCV proxy. Null when the pool isn't indexed or the data is
+ * too thin to say anything.
+ */
+export async function fetchPoolVolatility(
+  pool: Address
+): Promise<number | null> {
+  const key = pool.toLowerCase();
+  const cached = volatilityCache.get(key);
+  if (cached && Date.now() - cached.t < VOLATILITY_TTL_MS) {
+    return cached.sigmaPct;
+  }
+
+  let sigmaPct: number | null = null;
+  try {
+    const qs = new URLSearchParams({
+      timeframe: "minute",
+      aggregate: "5",
+      limit: "48",
+      currency: "token",
+      include_empty_intervals: "true",
+    });
+    const res = await fetch(
+      `/api/gecko/pool/${encodeURIComponent(key)}?${qs.toString()}`,
+      { headers: { accept: "application/json" }, cache: "no-store" }
+    );
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const json = await res.json();
+    const list: [number, number, number, number, number, number][] =
+      json?.data?.attributes?.ohlcv_list ?? [];
+
+    // Gecko returns newest first; order doesn't matter for σ
+    const closes = list.map((c) => Number(c[4])).filter((c) => c > 0);
+    if (closes.length >= 8) {
+      const returns = closes.slice(1).map((c, i) => Math.log(c / closes[i]));
+      const mean = returns.reduce((a, r) => a + r, 0) / returns.length;
+      const variance =
+        returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1);
+      sigmaPct = Math.sqrt(variance) * 100;
+    }
+  } catch (e) {
+    console.warn("[autoSlippage] OHLCV unavailable", pool, e);
+  }
+
+  volatilityCache.set(key, { t: Date.now(), sigmaPct });
+  return sigmaPct;
+}
+
+/**
+ * Recommends a slippage tolerance for a route. Each factor adds to a small
+ * base; the total is clamped to [AUTO_SLIPPAGE_MIN_BPS, AUTO_SLIPPAGE_MAX_BPS].
+ * `fees` and `volatilityPct` are per pool (all legs of a split together).
+ */
+export function recommendSlippage({
+  hops,
+  fees,
+  volatilityPct,
+  priceImpactPct,
+}: {
+  hops: number;
+  fees: number[];
+  volatilityPct: (number | null)[];
+  priceImpactPct: number | null;
+}): AutoSlippage {
+  const reasons = [`Base ${pct(BASE_BPS)}`];
+  let bps = BASE_BPS;
+
+  if (hops > 1) {
+    const add = (hops - 1) * PER_EXTRA_HOP_BPS;
+    bps += add;
+    reasons.push(`+${pct(add)} for ${hops} hops`);
+  }
+
+  // Volatility: combine pools as independent moves (root of summed variances).
+  // Pools without data fall back to their fee tier as a volatility hint.
+  const known = volatilityPct.filter((v): v is number => v !== null);
+  if (known.length) {
+    const sigma = Math.sqrt(known.reduce((a, v) => a + v * v, 0));
+    const add = Math.round(sigma * VOLATILITY_SIGMAS * 100);
+    bps += add;
+    reasons.push(
+      `+${pct(add)} for recent volatility (5m σ ${sigma.toFixed(2)}%)`
+    );
+  }
+  const unknownFees = fees.filter((_, i) => volatilityPct[i] == null);
+  if (unknownFees.length) {
+    const add = Math.max(...unknownFees.map((f) => FEE_TIER_BPS[f] ?? 20));
+    if (add > 0) {
+      bps += add;
+      reasons.push(
+        `+${pct(add)} for the ${(Math.max(...unknownFees) / 10000).toFixed(
+          2
+        )}% fee tier (no price history)`
+      );
+    }
+  }
+
+  if (priceImpactPct !== null && priceImpactPct > 0) {
+    const add = Math.round(priceImpactPct * IMPACT_SHARE * 100);
+    if (add > 0) {
+      bps += add;
+      reasons.push(
+        `+${pct(add)} for ${priceImpactPct.toFixed(2)}% price impact`
+      );
+    }
+  }
+
+  if (bps > AUTO_SLIPPAGE_MAX_BPS) {
+    reasons.push(`Capped at ${pct(AUTO_SLIPPAGE_MAX_BPS)}`);
+    bps = AUTO_SLIPPAGE_MAX_BPS;
+  } else if (bps < AUTO_SLIPPAGE_MIN_BPS) {
+    reasons.push(`Raised to the ${pct(AUTO_SLIPPAGE_MIN_BPS)} minimum`);
+    bps = AUTO_SLIPPAGE_MIN_BPS;
+  }
+
+  return { bps, reasons };
+}
@@ -0,0 +1,393 @@
+// src/lib/univ3/errors.ts
+import type { Hex } from "viem";
+import { decodeErrorResult, parseAbi, toFunctionSelector } from "viem";
+
+// Custom errors raised on our write paths: Universal Router (dispatcher and
+// V3 swap router), Permit2, and OpenZeppelin 5 ERC-20s
+const knownErrorsAbi = parseAbi([
+  // Universal Router
+  "error ExecutionFailed(uint256 commandIndex, bytes message)",
+  "error TransactionDeadlinePassed()",
+  "error LengthMismatch()",
+  "error InvalidCommandType(uint256 commandType)",
+  "error ContractLocked()",
+  "error ETHNotAccepted()",
+  "error InvalidEthSender()",
+  "error InsufficientETH()",
+  "error InsufficientToken()",
+  "error BalanceTooLow()",
+  "error InvalidBips()",
+  "error SliceOutOfBounds()",
+  "error V3InvalidSwap()",
+  "error V3TooLittleReceived()",
+  "error V3TooMuchRequested()",
+  "error V3InvalidAmountOut()",
+  "error V3InvalidCaller()",
+  // Permit2
+  "error AllowanceExpired(uint256 deadline)",
+  "error InsufficientAllowance(uint256 amount)",
+  "error ExcessiveInvalidation()",
+  "error InvalidNonce()",
+  "error SignatureExpired(uint256 signatureDeadline)",
+  "error InvalidSignature()",
+  "error InvalidSigner()",
+  "error InvalidContractSignature()",
+  "error InvalidSignatureLength()",
+  "error InvalidAmount(uint256 maxAmount)",
+  // ERC-20 (OpenZeppelin 5)
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+]);
+
+type Explanation = { message: string; fix?: string };
+
+const SLIPPAGE_FIX =
+  "Refresh the quote, or raise your slippage tolerance if the market is moving fast.";
+const BALANCE_FIX =
+  "Check your balance and approval, then try again with a smaller amount if needed.";
+
+const CUSTOM_ERRORS: Record<string, Explanation> = {
+  TransactionDeadlinePassed: {
+    message: "The transaction deadline passed before it was mined.",
+    fix: "Submit again, or increase the deadline in settings.",
+  },
+  V3TooLittleReceived: {
+    message: "The price moved: the swap would return less than your minimum.",
+    fix: SLIPPAGE_FIX,
+  },
+  V3TooMuchRequested: {
+    message: "The price moved: the swap would cost more than your maximum.",
+    fix: SLIPPAGE_FIX,
+  },
+  V3InvalidSwap: {
+    message: "The pool returned an unexpected swap result.",
+    fix: "Try a different route or amount.",
+  },
+  V3InvalidAmountOut: {
+    message: "The pool didn't return the exact output requested.",
+    fix: "Try again; if it persists, swap with an exact input instead.",
+  },
+  V3InvalidCaller: {
+    message: "A pool callback came from an unexpected address.",
+    fix: "The route contains an invalid pool. Pick a different route.",
+  },
+  InsufficientETH: {
+    message: "Not enough ETH was sent with the transaction.",
+    fix: "Refresh the quote and try again.",
+  },
+  InsufficientToken: {
+    message: "The router ended up with fewer tokens than the minimum.",
+    fix: SLIPPAGE_FIX,
+  },
+  BalanceTooLow: {
+    message: "The router's token balance is too low for this step.",
+    fix: SLIPPAGE_FIX,
+  },
+  ETHNotAccepted: {
+    message: "This step doesn't accept ETH.",
+    fix: "Swap from WETH, or pick ETH as the input token instead.",
+  },
+  InvalidEthSender: {
+    message: "ETH was sent to the router from an unexpected address.",
+  },
+  ContractLocked: {
+    message: "The router is already executing a transaction.",
+    fix: "Try again.",
+  },
+  LengthMismatch: {
+    message: "The transaction was built with mismatched inputs.",
+    fix: "Refresh the page and try again.",
+  },
+  InvalidCommandType: {
+    message: "The router doesn't support one of the requested commands.",
+  },
+  SliceOutOfBounds: {
+    message: "The swap path is malformed.",
+    fix: "Pick the route again.",
+  },
+  InvalidBips: { message: "A fee percentage is out of range." },
+  AllowanceExpired: {
+    message: "Your Permit2 allowance for the router has expired.",
+    fix: 'Click "Approve" again (or sign a new permit).',
+  },
+  InsufficientAllowance: {
+    message: "Your Permit2 allowance for the router is too low.",
+    fix: 'Click "Approve" again or reduce the amount.',
+  },
+  SignatureExpired: {
+    message: "The permit signature expired before the transaction was mined.",
+    fix: "Sign a new permit and submit again.",
+  },
+  InvalidNonce: {
+    message: "The permit signature was already used.",
+    fix: "Sign a new permit and submit again.",
+  },
+  InvalidSignature: {
+    message: "The permit signature is invalid.",
+    fix: "Sign the permit again with the connected wallet.",
+  },
+  InvalidSigner: {
+    message: "The permit was signed by a different account.",
+    fix: "Sign the permit again with the connected wallet.",
+  },
+  InvalidContractSignature: {
+    message: "Your smart wallet rejected the permit signature.",
+    fix: "Switch Permit2 approval to an on-chain transaction in settings.",
+  },
+  InvalidSignatureLength: {
+    message: "The permit signature is malformed.",
+    fix: "Switch Permit2 approval to an on-chain transaction in settings.",
+  },
+  InvalidAmount: {
+    message: "The amount exceeds what the permit allows.",
+    fix: "Sign a new permit for the full amount.",
+  },
+  ExcessiveInvalidation: {
+    message: "Too many Permit2 nonces invalidated at once.",
+  },
+  ERC20InsufficientBalance: {
+    message: "Your token balance is too low.",
+    fix: BALANCE_FIX,
+  },
+  ERC20InsufficientAllowance: {
+    message: "The token allowance is too low.",
+    fix: 'Click "Approve" again.',
+  },
+};
+
+// Revert strings from the V3 pools, NonfungiblePositionManager, SwapRouter
+// and solmate's SafeTransferLib (used by Permit2)
+const REVERT_STRINGS: Record<string, Explanation> = {
+  STF: {
+    message: "A token transfer into the pool failed.",
+    fix: BALANCE_FIX,
+  },
+  ST: {
+    message: "The pool couldn't send the output token.",
+    fix: "The token may block transfers to you. Check its restrictions.",
+  },
+  STE: { message: "Sending ETH failed." },
+  SA: { message: "A token approval failed." },
+  TRANSFER_FROM_FAILED: {
+    message: "Permit2 couldn't pull the tokens from your wallet.",
+    fix: BALANCE_FIX,
+  },
+  TRANSFER_FAILED: { message: "A token transfer failed." },
+  TLU: {
+    message: "The lower price of the range must be below the upper price.",
+    fix: "Adjust the price range.",
+  },
+  TLM: {
+    message: "The lower price of the range is below the minimum tick.",
+    fix: "Raise the lower price.",
+  },
+  TUM: {
+    message: "The upper price of the range is above the maximum tick.",
+    fix: "Lower the upper price.",
+  },
+  LOK: {
+    message: "The pool is locked or not initialized yet.",
+    fix: "Check the pool has a starting price.",
+  },
+  AI: { message: "The pool is already initialized." },
+  AS: {
+    message: "The swap amount is zero.",
+    fix: "Enter a larger amount.",
+  },
+  SPL: {
+    message: "The price limit is outside the allowed range.",
+  },
+  IIA: {
+    message: "The pool received less input than expected.",
+    fix: "The token may charge a fee on transfer. Swap it with an exact input amount.",
+  },
+  M0: {
+    message: "The pool didn't receive enough of the first token.",
+    fix: "The token may charge a fee on transfer.",
+  },
+  M1: {
+    message: "The pool didn't receive enough of the second token.",
+    fix: "The token may charge a fee on transfer.",
+  },
+  LS: { message: "The position doesn't have that much liquidity." },
+  LA: { message: "The position's liquidity would overflow." },
+  "Price slippage check": {
+    message: "The price moved: the deposit would fall below your minimums.",
+    fix: SLIPPAGE_FIX,
+  },
+  "Too little received": {
+    message: "The price moved: the swap would return less than your minimum.",
+    fix: SLIPPAGE_FIX,
+  },
+  "Too much requested": {
+    message: "The price moved: the swap would cost more than your maximum.",
+    fix: SLIPPAGE_FIX,
+  },
+  "Transaction too old": {
+    message: "The transaction deadline passed before it was mined.",
+    fix: "Submit again, or increase the deadline in settings.",
+  },
+  "Not approved": {
+    message: "This wallet isn't allowed to manage the position.",
+    fix: "Connect the wallet that owns the position.",
+  },
+  "Not cleared": {
+    message: "The position still holds liquidity or uncollected fees.",
+    fix: "Remove all liquidity and collect fees first.",
+  },
+  "Invalid token ID": {
+    message: "That position doesn't exist.",
+  },
+  "ERC20: transfer amount exceeds balance": {
+    message: "Your token balance is too low.",
+    fix: BALANCE_FIX,
+  },
+  "ERC20: insufficient allowance": {
+    message: "The token allowance is too low.",
+    fix: 'Click "Approve" again.',
+  },
+};
+
+const SELECTORS = new Map<string, string>(
+  knownErrorsAbi.map((item) => [
+    toFunctionSelector(
+      `${item.name}(${item.inputs.map((i) => i.type).join(",")})`
+    ),
+    item.name,
+  ])
+);
+
+export type DecodedTxError = Explanation & {
+  // custom error name, revert string or selector; null when nothing matched
+  code: string | null;
+  // Universal Router command that failed (from ExecutionFailed)
+  commandIndex?: number;
+};
+
+function isHexData(x: unknown): x is Hex {
+  return typeof x === "string" && /^0x[0-9a-fA-F]{8,}$/.test(x);
+}
+
+// Revert data from viem's error chain (ContractFunctionRevertedError.raw,
+// RawContractError.data or an RPC error's data)
+function findRevertData(e: any): Hex | undefined {
+  for (let err = e, i = 0; err && i < 10; err = err.cause, i++) {
+    if (isHexData(err.raw)) return err.raw;
+    if (isHexData(err.data)) return err.data;
+    if (isHexData(err.data?.data)) return err.data.data;
+  }
+  return undefined;
+}
+
+function findRevertReason(e: any): string | undefined {
+  for (let err = e, i = 0; err && i < 10; err = err.cause, i++) {
+    if (typeof err.reason === "string" && err.reason !== "execution reverted") {
+      return err.reason;
+    }
+  }
+  // Wallets often only pass the text along: "execution reverted: STF"
+  const text = String(e?.message ?? e ?? "");
+  const m = text.match(/reverted(?: with the following reason)?:\s*([^\n]+)/);
+  return m?.[1]?.trim().replace(/^["']|["']$/g, "");
+}
+
+function fromReason(reason: string): DecodedTxError {
+  const known = REVERT_STRINGS[reason];
+  if (known) return { code: reason, ...known };
+  return { code: reason, message: `The transaction reverted: ${reason}` };
+}
+
+function fromData(data: Hex, depth = 0): DecodedTxError | null {
+  try {
+    const decoded = decodeErrorResult({ abi: knownErrorsAbi, data });
+    // Error(string) and Panic(uint256) are decoded even though not in the ABI
+    const errorName = decoded.errorName as string;
+    const args = decoded.args as readonly unknown[] | undefined;
+    if (errorName === "ExecutionFailed" && depth < 2) {
+      const [commandIndex, inner] = args as readonly [bigint, Hex];
+      const step = fromData(inner, depth + 1) ?? {
+        code: "ExecutionFailed",
+        message: "A step of the swap reverted.",
+      };
+      return { ...step, commandIndex: Number(commandIndex) };
+    }
+    if (errorName === "Error") return fromReason(String(args?.[0] ?? ""));
+    if (errorName === "Panic") {
+      return {
+        code: "Panic",
+        message: "A contract hit an internal error (arithmetic or bounds).",
+        fix: "Try a smaller amount or a different route.",
+      };
+    }
+    const known = CUSTOM_ERRORS[errorName];
+    if (known) return { code: errorName, ...known };
+    return {
+      code: errorName,
+      message: `The transaction reverted: ${errorName}`,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isUserRejection(e: any) {
+  for (let err = e, i = 0; err && i < 10; err = err.cause, i++) {
+    if (err.code === 4001 || err.name === "UserRejectedRequestError") {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Explains why a simulation or transaction failed: decodes Universal Router,
+ * Permit2 and ERC-20 custom errors (unwrapping ExecutionFailed) and the
+ * pool / position manager revert strings. Falls back to viem's short message.
+ */
+export function decodeTxError(
+  e: unknown,
+  fallback = "Transaction failed"
+): DecodedTxError {
+  const err = e as any;
+
+  if (isUserRejection(err)) {
+    return { code: "UserRejected", message: "Request rejected in the wallet." };
+  }
+
+  const data = findRevertData(err);
+  const fromRaw = data ? fromData(data) : null;
+  if (fromRaw) return fromRaw;
+
+  const reason = findRevertReason(err);
+  if (reason && REVERT_STRINGS[reason]) return fromReason(reason);
+
+  // Selector in the message text (wallets that drop the structured data)
+  const text = String(err?.message ?? err ?? "");
+  const selectors = Array.from(SELECTORS.entries());
+  const hit = selectors.find(([sel]) => text.toLowerCase().includes(sel));
+  if (hit && CUSTOM_ERRORS[hit[1]])
+    return { code: hit[1], ...CUSTOM_ERRORS[hit[1]] };
+
+  if (/insufficient funds/i.test(text)) {
+    return {
+      code: "InsufficientFunds",
+      message: "Not enough ETH to pay for gas.",
+      fix: "Top up ETH on this network and try again.",
+    };
+  }
+
+  if (reason) return fromReason(reason);
+  return {
+    code: data ? data.slice(0, 10) : null,
+    message:
+      err?.shortMessage ??
+      err?.message ??
+      (typeof e === "string" ? e : fallback),
+  };
+}
+
+/** One-line message for status banners: explanation plus suggested fix. */
+export function txErrorMessage(e: unknown, fallback?: string): string {
+  const { message, fix } = decodeTxError(e, fallback);
+  return fix ? `${message} ${fix}` : message;
+}
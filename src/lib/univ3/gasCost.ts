@@ -0,0 +1,141 @@
+// src/lib/univ3/gasCost.ts
+import type { PathQuote } from "./quotes";
+
+// Heuristics for a V3 swap through the Universal Router when QuoterV2's
+// measurement isn't available (local quotes). Same shape as Uniswap's router:
+// a per-hop cost plus a cost per initialized tick crossed.
+const TX_BASE_GAS = 21_000n;
+const ROUTER_OVERHEAD_GAS = 40_000n;
+const GAS_PER_HOP = 80_000n;
+const GAS_PER_INIT_TICK = 31_000n;
+
+const GAS_PRICE_TTL_MS = 15_000;
+let gasPriceCache: { t: number; wei: bigint } | null = null;
+
+/**
+ * Gas units for executing a routed swap. QuoterV2's own `gasEstimate` covers
+ * the pool swaps only, so the transaction base cost and router overhead are
+ * added on top either way.
+ */
+export function estimateRouteGas(
+  quote: Pick<PathQuote, "gasEstimate" | "initializedTicksCrossedList">,
+  hops: number
+): bigint {
+  const swaps =
+    quote.gasEstimate > 0n
+      ? quote.gasEstimate
+      : BigInt(hops) * GAS_PER_HOP +
+        BigInt(
+          quote.initializedTicksCrossedList.reduce((acc, n) => acc + n, 0)
+        ) *
+          GAS_PER_INIT_TICK;
+  return TX_BASE_GAS + ROUTER_OVERHEAD_GAS + swaps;
+}
+
+/**
+ * Gas for a split trade: one transaction, the router overhead once, and the
+ * swap cost of every leg.
+ */
+export function estimateSplitGas(legGas: bigint[]): bigint {
+  const overhead = TX_BASE_GAS + ROUTER_OVERHEAD_GAS;
+  return legGas.reduce((acc, g) => acc + (g - overhead), overhead);
+}
+
+/**
+ * Current L2 gas price in wei (eth_gasPrice: base fee plus a typical tip).
+ * Covers execution only; on OP-stack chains add estimateSwapL1Fee.
+ */
+export async function readGasPrice(client: any): Promise<bigint> {
+  if (gasPriceCache && Date.now() - gasPriceCache.t < GAS_PRICE_TTL_MS) {
+    return gasPriceCache.wei;
+  }
+  const wei = (await client.getGasPrice()) as bigint;
+  gasPriceCache = { t: Date.now(), wei };
+  return wei;
+}
+
+// OP-stack predeploy that prices the L1 data fee of an L2 transaction
+const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F" as const;
+const gasPriceOracleAbi = [
+  {
+    type: "function",
+    name: "getL1Fee",
+    stateMutability: "view",
+    inputs: [{ name: "data", type: "bytes" }],
+    outputs: [{ type: "uint256" }],
+  },
+] as const;
+
+// Sample payload for pricing a byte: non-zero and incompressible-ish, so the
+// estimate errs high like real swap calldata (addresses, amounts)
+const L1_SAMPLE_BYTES = 1_024;
+// Signed tx envelope around the calldata: nonce, gas fields, to, value, sig
+const TX_ENVELOPE_BYTES = 110;
+// execute(bytes,bytes[],uint256): selector, heads, commands, inputs array
+const EXECUTE_BASE_BYTES = 196;
+// One swap input: offset, length, (recipient, amount, limit, path, payer)
+const SWAP_INPUT_BYTES = 256;
+
+const L1_FEE_TTL_MS = 60_000;
+let l1FeeCache: { t: number; perByte: bigint | null } | null = null;
+
+/**
+ * L1 data fee per calldata byte, in wei, from the GasPriceOracle. Null on
+ * chains without it (no L1 fee to add). Cached for a minute.
+ */
+export async function readL1FeePerByte(client: any): Promise<bigint | null> {
+  if (l1FeeCache && Date.now() - l1FeeCache.t < L1_FEE_TTL_MS) {
+    return l1FeeCache.perByte;
+  }
+  let perByte: bigint | null = null;
+  try {
+    const sample = `0x${"a5".repeat(L1_SAMPLE_BYTES)}` as `0x${string}`;
+    const fee = (await client.readContract({
+      address: GAS_PRICE_ORACLE,
+      abi: gasPriceOracleAbi,
+      functionName: "getL1Fee",
+      args: [sample],
+    })) as bigint;
+    perByte = fee / BigInt(L1_SAMPLE_BYTES);
+  } catch {
+    perByte = null;
+  }
+  l1FeeCache = { t: Date.now(), perByte };
+  return perByte;
+}
+
+/**
+ * Approximate L1 data fee of a Universal Router swap, from the hop count of
+ * each leg (one leg unless split). Paths are 20 bytes plus 23 per hop, padded
+ * to words.
+ */
+export function estimateSwapL1Fee(
+  l1FeePerByte: bigint | null,
+  legHops: number[]
+): bigint {
+  if (!l1FeePerByte) return 0n;
+  const bytes = legHops.reduce(
+    (acc, hops) =>
+      acc + SWAP_INPUT_BYTES + Math.ceil((20 + 23 * hops) / 32) * 32,
+    TX_ENVELOPE_BYTES + EXECUTE_BASE_BYTES
+  );
+  return BigInt(bytes) * l1FeePerByte;
+}
+
+/**
+ * Converts a gas cost in wei into a token's base units, given how many base
+ * units 1 ETH buys (`tokenPerEth`).
+ */
+export function weiToToken(wei: bigint, tokenPerEth: bigint): bigint {
+  return (wei * tokenPerEth) / 10n ** 18n;
+}
+
+export function weiToUsd(wei: bigint, ethUsd: number): number {
+  return (Number(wei) / 1e18) * ethUsd;
+}
+
+export function formatUsd(usd: number | null): string {
+  if (usd === null || !Number.isFinite(usd)) return "—";
+  if (usd > 0 && usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,321 @@
+// src/lib/univ3/limitOrders.ts
+import type { Address } from "viem";
+import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import { getPoolTokens } from "./pools";
+
+// Sommelier-style LimitOrderRegistry: each order is a single-tickSpacing range
+// position that the registry's keeper withdraws once price crosses it.
+const batchOrderComponents = [
+  { name: "direction", type: "bool" },
+  { name: "tickUpper", type: "int24" },
+  { name: "tickLower", type: "int24" },
+  { name: "userCount", type: "uint64" },
+  { name: "batchId", type: "uint128" },
+  { name: "token0Amount", type: "uint128" },
+  { name: "token1Amount", type: "uint128" },
+  { name: "head", type: "uint256" },
+  { name: "tail", type: "uint256" },
+] as const;
+
+export const limitOrderRegistryAbi = [
+  {
+    type: "function",
+    name: "newOrder",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "pool", type: "address" },
+      { name: "targetTick", type: "int24" },
+      { name: "amount", type: "uint128" },
+      { name: "direction", type: "bool" },
+      { name: "startingNode", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+    outputs: [{ name: "batchId", type: "uint128" }],
+  },
+  {
+    type: "function",
+    name: "cancelOrder",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "pool", type: "address" },
+      { name: "targetTick", type: "int24" },
+      { name: "direction", type: "bool" },
+      { name: "deadline", type: "uint256" },
+    ],
+    outputs: [
+      { name: "amount0", type: "uint128" },
+      { name: "amount1", type: "uint128" },
+      { name: "batchId", type: "uint128" },
+    ],
+  },
+  {
+    type: "function",
+    name: "claimOrder",
+    stateMutability: "payable",
+    inputs: [
+      { name: "batchId", type: "uint128" },
+      { name: "user", type: "address" },
+    ],
+    outputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "getFeePerUser",
+    stateMutability: "view",
+    inputs: [{ name: "batchId", type: "uint128" }],
+    outputs: [{ name: "", type: "uint128" }],
+  },
+  {
+    type: "function",
+    name: "isOrderReadyForClaim",
+    stateMutability: "view",
+    inputs: [{ name: "batchId", type: "uint128" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "event",
+    name: "NewOrder",
+    inputs: [
+      { name: "user", type: "address", indexed: false },
+      { name: "pool", type: "address", indexed: false },
+      { name: "amount", type: "uint128", indexed: false },
+      { name: "userTotal", type: "uint128", indexed: false },
+      {
+        name: "effectedOrder",
+        type: "tuple",
+        indexed: false,
+        components: batchOrderComponents,
+      },
+    ],
+  },
+] as const;
+
+export const LIMIT_ORDER_REGISTRY =
+  UNI_V3_ADDRESSES.limitOrderRegistry as Address;
+
+// How far back to scan NewOrder logs for orders not in local storage
+export const ORDER_LOG_LOOKBACK_BLOCKS = 50_000n;
+
+export type OrderStatus = "open" | "partial" | "filled";
+
+export type LimitOrder = {
+  pool: Address;
+  batchId: string; // uint128 as decimal string (JSON-safe)
+  direction: boolean; // true: sell token0 for token1 (fills as price rises)
+  targetTick: number;
+  tickLower: number;
+  tickUpper: number;
+  amount: string;
+  token0: Address;
+  token1: Address;
+  createdAt: number; // ms timestamp; 0 for orders recovered from logs
+};
+
+/**
+ * Range of a single-tickSpacing order. `direction` true deposits token0 into
+ * [targetTick - spacing, targetTick]; false deposits token1 into
+ * [targetTick, targetTick + spacing].
+ */
+export function orderTicks(
+  targetTick: number,
+  tickSpacing: number,
+  direction: boolean
+) {
+  return direction
+    ? { tickLower: targetTick - tickSpacing, tickUpper: targetTick }
+    : { tickLower: targetTick, tickUpper: targetTick + tickSpacing };
+}
+
+/**
+ * Snaps a raw (fractional) tick to a valid target tick that keeps the order
+ * out of range at the current tick: above it when selling token0, below it
+ * when selling token1. Returns null if the price is on the wrong side.
+ */
+export function targetTickFor(
+  rawTick: number,
+  currentTick: number,
+  tickSpacing: number,
+  direction: boolean
+): number | null {
+  if (!Number.isFinite(rawTick)) return null;
+  if (direction) {
+    const target = Math.ceil(rawTick / tickSpacing) * tickSpacing;
+    // the whole range [target - spacing, target] must sit above the price
+    return target - tickSpacing > currentTick ? target : null;
+  }
+  const target = Math.floor(rawTick / tickSpacing) * tickSpacing;
+  return target + tickSpacing <= currentTick ? target : null;
+}
+
+/**
+ * Fill state from the pool's current tick (mirrors the registry's ITM/MIXED/OTM).
+ */
+export function orderStatus(
+  currentTick: number,
+  order: { tickLower: number; tickUpper: number; direction: boolean }
+): OrderStatus {
+  if (order.direction) {
+    if (currentTick > order.tickUpper) return "filled";
+    if (currentTick >= order.tickLower) return "partial";
+    return "open";
+  }
+  if (currentTick < order.tickLower) return "filled";
+  if (currentTick <= order.tickUpper) return "partial";
+  return "open";
+}
+
+function storageKey(chainId: number, account: Address) {
+  return `limitOrders:${chainId}:${account.toLowerCase()}`;
+}
+
+function closedKey(chainId: number, account: Address) {
+  return `limitOrders:closed:${chainId}:${account.toLowerCase()}`;
+}
+
+export function loadStoredOrders(
+  chainId: number,
+  account: Address
+): LimitOrder[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(storageKey(chainId, account));
+    return raw ? (JSON.parse(raw) as LimitOrder[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveStoredOrders(
+  chainId: number,
+  account: Address,
+  orders: LimitOrder[]
+) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(
+    storageKey(chainId, account),
+    JSON.stringify(orders)
+  );
+}
+
+/**
+ * Forgets a cancelled/claimed order. It is also remembered as closed so the
+ * NewOrder log scan doesn't bring it back.
+ */
+export function markOrderClosed(
+  chainId: number,
+  account: Address,
+  order: LimitOrder
+) {
+  if (typeof window === "undefined") return;
+  const key = orderKey(order);
+  saveStoredOrders(
+    chainId,
+    account,
+    loadStoredOrders(chainId, account).filter((o) => orderKey(o) !== key)
+  );
+  const closed = loadClosedOrderKeys(chainId, account);
+  closed.add(key);
+  window.localStorage.setItem(
+    closedKey(chainId, account),
+    JSON.stringify(Array.from(closed))
+  );
+}
+
+export function loadClosedOrderKeys(
+  chainId: number,
+  account: Address
+): Set<string> {
+  if (typeof window === "undefined") return new Set();
+  try {
+    const raw = window.localStorage.getItem(closedKey(chainId, account));
+    return new Set(raw ? (JSON.parse(raw) as string[]) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+// Same pool + batch is the same order (re-deposits add to it)
+export function orderKey(o: { pool: Address; batchId: string }) {
+  return `${o.pool.toLowerCase()}:${o.batchId}`;
+}
+
+export function mergeOrders(a: LimitOrder[], b: LimitOrder[]): LimitOrder[] {
+  const byKey = new Map<string, LimitOrder>();
+  for (const o of [...a, ...b]) byKey.set(orderKey(o), o);
+  return Array.from(byKey.values()).sort((x, y) => y.createdAt - x.createdAt);
+}
+
+/**
+ * Recovers the user's recent orders from NewOrder logs. The event has no
+ * indexed user, so logs are filtered client-side over a bounded window.
+ */
+export async function fetchOrdersFromLogs(
+  client: any,
+  account: Address
+): Promise<LimitOrder[]> {
+  const latest = (await client.getBlockNumber()) as bigint;
+  const fromBlock =
+    latest > ORDER_LOG_LOOKBACK_BLOCKS
+      ? latest - ORDER_LOG_LOOKBACK_BLOCKS
+      : 0n;
+
+  const logs = (await client.getContractEvents({
+    address: LIMIT_ORDER_REGISTRY,
+    abi: limitOrderRegistryAbi,
+    eventName: "NewOrder",
+    fromBlock,
+    toBlock: latest,
+  })) as { args: any }[];
+
+  const mine = logs.filter(
+    (l) => l.args?.user?.toLowerCase() === account.toLowerCase()
+  );
+
+  const tokensByPool = new Map<string, { token0: Address; token1: Address }>();
+  for (const l of mine) {
+    const key = (l.args.pool as string).toLowerCase();
+    if (!tokensByPool.has(key)) {
+      tokensByPool.set(key, await getPoolTokens(client, l.args.pool));
+    }
+  }
+
+  return mine.map((l) => {
+    const o = l.args.effectedOrder;
+    const direction = Boolean(o.direction);
+    return {
+      pool: l.args.pool as Address,
+      batchId: BigInt(o.batchId).toString(),
+      direction,
+      targetTick: direction ? Number(o.tickUpper) : Number(o.tickLower),
+      tickLower: Number(o.tickLower),
+      tickUpper: Number(o.tickUpper),
+      amount: BigInt(l.args.userTotal).toString(),
+      ...tokensByPool.get((l.args.pool as string).toLowerCase())!,
+      createdAt: 0,
+    };
+  });
+}
+
+/**
+ * Whether a batch can be claimed, and the native fee the keeper charges per user.
+ */
+export async function readClaimInfo(client: any, batchId: bigint) {
+  const [ready, fee] = await Promise.all([
+    client.readContract({
+      address: LIMIT_ORDER_REGISTRY,
+      abi: limitOrderRegistryAbi,
+      functionName: "isOrderReadyForClaim",
+      args: [batchId],
+    }) as Promise<boolean>,
+    client.readContract({
+      address: LIMIT_ORDER_REGISTRY,
+      abi: limitOrderRegistryAbi,
+      functionName: "getFeePerUser",
+      args: [batchId],
+    }) as Promise<bigint>,
+  ]);
+  return { ready, fee };
+}
@@ -0,0 +1,72 @@
+// src/lib/univ3/liquidityDepth.ts
+import type { Address } from "viem";
+import type { PoolSnapshot } from "@/lib/math/swapSimulator";
+import { loadPoolSnapshot } from "./tickLens";
+
+// Active liquidity is constant between two initialized ticks
+export type LiquiditySegment = {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+};
+
+export type LiquidityDepth = {
+  currentTick: number;
+  tickSpacing: number;
+  // contiguous, ascending, spanning the loaded tick-bitmap words
+  segments: LiquiditySegment[];
+};
+
+/**
+ * Rebuilds active liquidity across the loaded ticks from the pool's current
+ * liquidity: crossing a tick upwards adds its liquidityNet, downwards
+ * subtracts it.
+ */
+export function depthFromSnapshot(snapshot: PoolSnapshot): LiquidityDepth {
+  const { ticks, tick: current, tickSpacing, liquidity } = snapshot;
+  const from = snapshot.minWord * 256 * tickSpacing;
+  const to = (snapshot.maxWord + 1) * 256 * tickSpacing;
+
+  // Boundaries: the loaded range plus every initialized tick inside it
+  const bounds = [from, ...ticks.map((t) => t.tick), to];
+  // Index of the segment holding the current tick
+  let at = 0;
+  while (at + 1 < bounds.length - 1 && bounds[at + 1] <= current) at++;
+
+  const levels: bigint[] = new Array(bounds.length - 1);
+  levels[at] = liquidity;
+  for (let i = at + 1; i < levels.length; i++) {
+    levels[i] = levels[i - 1] + ticks[i - 1].liquidityNet;
+  }
+  for (let i = at - 1; i >= 0; i--) {
+    levels[i] = levels[i + 1] - ticks[i].liquidityNet;
+  }
+
+  const segments: LiquiditySegment[] = [];
+  for (let i = 0; i < levels.length; i++) {
+    if (bounds[i + 1] <= bounds[i]) continue;
+    segments.push({
+      tickLower: bounds[i],
+      tickUpper: bounds[i + 1],
+      liquidity: levels[i] > 0n ? levels[i] : 0n,
+    });
+  }
+  return { currentTick: current, tickSpacing, segments };
+}
+
+/** Liquidity distribution around the current price of `pool`, via TickLens. */
+export async function loadLiquidityDepth(
+  client: any,
+  pool: Address,
+  fee: number
+): Promise<LiquidityDepth> {
+  return depthFromSnapshot(await loadPoolSnapshot(client, pool, fee));
+}
+
+/** Active liquidity at `tick`, or null outside the loaded range. */
+export function liquidityAtTick(depth: LiquidityDepth, tick: number) {
+  const seg = depth.segments.find(
+    (s) => tick >= s.tickLower && tick < s.tickUpper
+  );
+  return seg ? seg.liquidity : null;
+}
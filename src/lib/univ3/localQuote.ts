@@ -0,0 +1,159 @@
+// src/lib/univ3/localQuote.ts
+import type { Address } from "viem";
+import {
+  MissingTickWordError,
+  simulateSwap,
+  type SimulatedSwap,
+} from "@/lib/math/swapSimulator";
+import { loadPoolSnapshot } from "./tickLens";
+import { quoteExactInPath, quoteExactOutPath, type PathQuote } from "./quotes";
+import type { TradeType } from "./universalRouter";
+
+// Extra tick-bitmap words a single hop may pull in before giving up
+const MAX_EXTRA_WORDS = 8;
+
+export type QuoteSource = "local" | "quoter";
+
+async function simulateHop(
+  client: any,
+  pool: Address,
+  fee: number,
+  zeroForOne: boolean,
+  amountSpecified: bigint
+): Promise<SimulatedSwap> {
+  let includeWord: number | undefined;
+
+  for (let i = 0; i <= MAX_EXTRA_WORDS; i++) {
+    const snapshot = await loadPoolSnapshot(client, pool, fee, {
+      includeWord,
+    });
+    try {
+      return simulateSwap(snapshot, zeroForOne, amountSpecified);
+    } catch (e) {
+      if (!(e instanceof MissingTickWordError)) throw e;
+      includeWord = e.word;
+    }
+  }
+
+  throw new Error("Trade crosses too many ticks to simulate locally");
+}
+
+/**
+ * Quotes a route from cached pool state and TickLens tick data, without
+ * QuoterV2. Lists come back in the order QuoterV2 would return them (reversed
+ * for exact output); `gasEstimate` is not known locally and is 0.
+ */
+export async function quotePathLocal(
+  client: any,
+  {
+    tokens,
+    fees,
+    pools,
+    tradeType,
+    amount,
+  }: {
+    tokens: Address[];
+    fees: number[];
+    pools: Address[];
+    tradeType: TradeType;
+    amount: bigint;
+  }
+): Promise<PathQuote> {
+  if (amount === 0n) throw new Error("Enter a non-zero amount");
+  if (pools.length !== fees.length) throw new Error("Route is missing pools");
+
+  const sqrtPriceX96AfterList: bigint[] = [];
+  const initializedTicksCrossedList: number[] = [];
+  const hops = fees.map((fee, i) => ({
+    pool: pools[i],
+    fee,
+    zeroForOne: tokens[i].toLowerCase() < tokens[i + 1].toLowerCase(),
+  }));
+
+  if (tradeType === "exactIn") {
+    let current = amount;
+    for (const hop of hops) {
+      const sim = await simulateHop(
+        client,
+        hop.pool,
+        hop.fee,
+        hop.zeroForOne,
+        current
+      );
+      current = sim.amountOut;
+      sqrtPriceX96AfterList.push(sim.sqrtPriceX96After);
+      initializedTicksCrossedList.push(sim.initializedTicksCrossed);
+    }
+    return {
+      amountIn: amount,
+      amountOut: current,
+      sqrtPriceX96AfterList,
+      initializedTicksCrossedList,
+      gasEstimate: 0n,
+    };
+  }
+
+  // Exact output walks the route backwards, like the router does
+  let current = amount;
+  for (const hop of [...hops].reverse()) {
+    const sim = await simulateHop(
+      client,
+      hop.pool,
+      hop.fee,
+      hop.zeroForOne,
+      -current
+    );
+    current = sim.amountIn;
+    sqrtPriceX96AfterList.push(sim.sqrtPriceX96After);
+    initializedTicksCrossedList.push(sim.initializedTicksCrossed);
+  }
+  return {
+    amountIn: current,
+    amountOut: amount,
+    sqrtPriceX96AfterList,
+    initializedTicksCrossedList,
+    gasEstimate: 0n,
+  };
+}
+
+/**
+ * Quotes a route locally when pool addresses are known, falling back to
+ * QuoterV2 if the simulation can't run (missing pools, RPC/TickLens errors).
+ */
+export async function quotePath(
+  client: any,
+  {
+    tokens,
+    fees,
+    pools,
+    tradeType,
+    amount,
+  }: {
+    tokens: Address[];
+    fees: number[];
+    pools?: Address[];
+    tradeType: TradeType;
+    amount: bigint;
+  }
+): Promise<PathQuote & { source: QuoteSource }> {
+  if (pools && pools.length === fees.length) {
+    try {
+      const quote = await quotePathLocal(client, {
+        tokens,
+        fees,
+        pools,
+        tradeType,
+        amount,
+      });
+      return { ...quote, source: "local" };
+    } catch (e) {
+      console.warn("[localQuote] falling back to QuoterV2", e);
+    }
+  }
+
+  const quote =
+    tradeType === "exactIn"
+      ? await quoteExactInPath(client, { tokens, fees, amountIn: amount })
+      : await quoteExactOutPath(client, { tokens, fees, amountOut: amount });
+  return { ...quote, source: "quoter" };
+}
@@ -0,0 +1,28 @@
+// src/lib/univ3/path.ts
+import type { Address, Hex } from "viem";
+
+/**
+ * Multi-hop capable V3 path encoder: tokens[0..n], fees[0..n-1]
+ * Layout is token (20 bytes) | fee (3 bytes) | token (20 bytes) | ...
+ */
+export function encodeV3Path(tokens: Address[], fees: number[]): Hex {
+  if (tokens.length < 2 || fees.length !== tokens.length - 1) {
+    throw new Error("Invalid V3 path: token/fee length mismatch");
+  }
+
+  let path = tokens[0].slice(2);
+  for (let i = 0; i < fees.length; i++) {
+    const feeHex = fees[i].toString(16).padStart(6, "0");
+    path += feeHex + tokens[i + 1].slice(2);
+  }
+
+  return `0x${path}` as Hex;
+}
+
+/**
+ * Exact-output swaps (QuoterV2.quoteExactOutput, V3_SWAP_EXACT_OUT) expect the
+ * path from tokenOut back to tokenIn, so reverse both tokens and fees.
+ */
+export function encodeV3PathReversed(tokens: Address[], fees: number[]): Hex {
+  return encodeV3Path([...tokens].reverse(), [...fees].reverse());
+}
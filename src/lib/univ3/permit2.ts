@@ -0,0 +1,185 @@
+// src/lib/univ3/permit2.ts
+import type { Address, Hex } from "viem";
+import { encodeAbiParameters, parseAbiParameters } from "viem";
+import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+
+export const permit2Abi = [
+  {
+    type: "function",
+    name: "allowance",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "token", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [
+      { name: "amount", type: "uint160" },
+      { name: "expiration", type: "uint48" },
+      { name: "nonce", type: "uint48" },
+    ],
+  },
+  {
+    type: "function",
+    name: "approve",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint160" },
+      { name: "expiration", type: "uint48" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+export const MAX_UINT160 = (1n << 160n) - 1n;
+
+// How long a signed allowance stays valid, and how long the signature itself may be submitted
+export const PERMIT_EXPIRATION_SECONDS = 60 * 60 * 24 * 30; // 30 days
+export const PERMIT_SIG_DEADLINE_SECONDS = 60 * 30; // 30 minutes
+
+// Universal Router command byte (see Commands.sol)
+export const PERMIT2_PERMIT = "0x0a" as const;
+
+export type Permit2Allowance = {
+  amount: bigint;
+  expiration: number;
+  nonce: number;
+};
+
+export type PermitSingle = {
+  details: {
+    token: Address;
+    amount: bigint;
+    expiration: number;
+    nonce: number;
+  };
+  spender: Address;
+  sigDeadline: bigint;
+};
+
+export const PERMIT_SINGLE_TYPES = {
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Reads Permit2's internal (owner, token, spender) allowance tuple.
+ */
+export async function readPermit2Allowance(
+  client: any,
+  owner: Address,
+  token: Address,
+  spender: Address
+): Promise<Permit2Allowance> {
+  const [amount, expiration, nonce] = (await client.readContract({
+    address: UNI_V3_ADDRESSES.permit2 as Address,
+    abi: permit2Abi,
+    functionName: "allowance",
+    args: [owner, token, spender],
+  })) as readonly [bigint, number, number];
+
+  return {
+    amount: BigInt(amount),
+    expiration: Number(expiration),
+    nonce: Number(nonce),
+  };
+}
+
+/**
+ * True when the Permit2 allowance covers `amount` and has not expired.
+ */
+export function isPermit2AllowanceValid(
+  allowance: Permit2Allowance,
+  amount: bigint,
+  nowSec = Math.floor(Date.now() / 1000)
+) {
+  return allowance.amount >= amount && allowance.expiration > nowSec;
+}
+
+/**
+ * Builds a PermitSingle for `spender`, reusing the current on-chain nonce
+ * (Permit2 rejects any other value).
+ */
+export function buildPermitSingle({
+  token,
+  spender,
+  nonce,
+  amount = MAX_UINT160,
+  nowSec = Math.floor(Date.now() / 1000),
+}: {
+  token: Address;
+  spender: Address;
+  nonce: number;
+  amount?: bigint;
+  nowSec?: number;
+}): PermitSingle {
+  return {
+    details: {
+      token,
+      amount,
+      expiration: nowSec + PERMIT_EXPIRATION_SECONDS,
+      nonce,
+    },
+    spender,
+    sigDeadline: BigInt(nowSec + PERMIT_SIG_DEADLINE_SECONDS),
+  };
+}
+
+/**
+ * Asks the wallet for an EIP-712 signature over a PermitSingle.
+ */
+export async function signPermitSingle(
+  walletClient: any,
+  {
+    account,
+    chainId,
+    permit,
+  }: { account: Address; chainId: number; permit: PermitSingle }
+): Promise<Hex> {
+  return walletClient.signTypedData({
+    account,
+    domain: {
+      name: "Permit2",
+      chainId,
+      verifyingContract: UNI_V3_ADDRESSES.permit2 as Address,
+    },
+    types: PERMIT_SINGLE_TYPES,
+    primaryType: "PermitSingle",
+    message: permit,
+  }) as Promise<Hex>;
+}
+
+/**
+ * Input for the Universal Router PERMIT2_PERMIT command.
+ */
+export function encodePermit2Permit(permit: PermitSingle, signature: Hex): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters(
+      "((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature"
+    ),
+    [
+      {
+        details: {
+          token: permit.details.token,
+          amount: permit.details.amount,
+          expiration: permit.details.expiration,
+          nonce: permit.details.nonce,
+        },
+        spender: permit.spender,
+        sigDeadline: permit.sigDeadline,
+      },
+      signature,
+    ]
+  );
+}
@@ -15,6 +15,13 @@ const factoryAbi = [
     ],
     outputs: [{ name: "pool", type: "address" }],
   },
+  {
+    type: "function",
+    stateMutability: "view",
+    name: "feeAmountTickSpacing",
+    inputs: [{ name: "fee", type: "uint24" }],
+    outputs: [{ name: "tickSpacing", type: "int24" }],
+  },
 ] as const;
 
 const poolAbi = [
@@ -47,6 +54,20 @@ const poolAbi = [
     inputs: [],
     outputs: [{ type: "int24" }],
   },
+  {
+    type: "function",
+    name: "token0",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "address" }],
+  },
+  {
+    type: "function",
+    name: "token1",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "address" }],
+  },
 ] as const;
 
 function sortTokens(a: Address, b: Address) {
@@ -80,6 +101,23 @@ export async function getPoolAddress(
   }) as Promise<Address>;
 }
 
+/**
+ * Tick spacing the factory assigns to `fee`; 0 when that fee tier isn't
+ * enabled, so createPool would revert.
+ */
+export async function getFeeTickSpacing(
+  client: any,
+  fee: number
+): Promise<number> {
+  const spacing = await client.readContract({
+    address: UNI_V3_ADDRESSES.factory as Address,
+    abi: factoryAbi,
+    functionName: "feeAmountTickSpacing",
+    args: [fee],
+  });
+  return Number(spacing);
+}
+
 /**
  * Convenience: returns null if no pool, plus whether caller order was inverted.
  */
@@ -157,3 +195,40 @@ export async function getPoolState(client: any, pool: Address) {
     tickSpacing: Number(spacing),
   };
 }
+
+/**
+ * Reads only the current sqrtPriceX96 from slot0.
+ */
+export async function getSqrtPriceX96(
+  client: any,
+  pool: Address
+): Promise<bigint> {
+  const slot0 = await client.readContract({
+    address: pool,
+    abi: poolAbi,
+    functionName: "slot0",
+  });
+  return BigInt((slot0 as any)?.[0] ?? 0n);
+}
+
+/**
+ * Reads a pool's (token0, token1).
+ */
+export async function getPoolTokens(
+  client: any,
+  pool: Address
+): Promise<{ token0: Address; token1: Address }> {
+  const [token0, token1] = await Promise.all([
+    client.readContract({
+      address: pool,
+      abi: poolAbi,
+      functionName: "token0",
+    }),
+    client.readContract({
+      address: pool,
+      abi: poolAbi,
+      functionName: "token1",
+    }),
+  ]);
+  return { token0: token0 as Address, token1: token1 as Address };
+}
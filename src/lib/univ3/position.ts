@@ -2,6 +2,18 @@
 import type { Address } from "viem";
 import { encodeFunctionData } from "viem";
 import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import {
+  getSqrtRatioAtTick,
+  MIN_SQRT_RATIO,
+  MAX_SQRT_RATIO,
+} from "@/lib/math/tickMath";
+import { getAmount0Delta, getAmount1Delta } from "@/lib/math/sqrtPriceMath";
+import {
+  getLiquidityForAmounts,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+} from "@/lib/math/liquidityAmounts";
+import { sqrt } from "@/lib/math/fullMath";
 
 const nfpmAbi = [
   {
@@ -69,6 +81,131 @@ export function getFullRangeTicks(tickSpacing: number) {
   return { tickLower: lower, tickUpper: upper };
 }
 
+export type MintAmounts = {
+  liquidity: bigint;
+  // what the pool takes at the current price (the rest of *Desired is refunded)
+  amount0: bigint;
+  amount1: bigint;
+  // passed to mint(); it reverts with "Price slippage check" below these
+  amount0Min: bigint;
+  amount1Min: bigint;
+};
+
+// sqrtPriceX96 of the price scaled by (1 ± bps), kept inside TickMath bounds
+function shiftSqrtPrice(sqrtPriceX96: bigint, bps: bigint) {
+  const shifted = sqrt((sqrtPriceX96 * sqrtPriceX96 * bps) / 10_000n);
+  if (shifted < MIN_SQRT_RATIO) return MIN_SQRT_RATIO;
+  if (shifted >= MAX_SQRT_RATIO) return MAX_SQRT_RATIO - 1n;
+  return shifted;
+}
+
+// Pool.mint's token amounts for `liquidity` at a price (rounded up, as it charges)
+function amountsForMint(
+  sqrtPriceX96: bigint,
+  sqrtLower: bigint,
+  sqrtUpper: bigint,
+  liquidity: bigint
+) {
+  if (sqrtPriceX96 <= sqrtLower) {
+    return {
+      amount0: getAmount0Delta(sqrtLower, sqrtUpper, liquidity, true),
+      amount1: 0n,
+    };
+  }
+  if (sqrtPriceX96 < sqrtUpper) {
+    return {
+      amount0: getAmount0Delta(sqrtPriceX96, sqrtUpper, liquidity, true),
+      amount1: getAmount1Delta(sqrtLower, sqrtPriceX96, liquidity, true),
+    };
+  }
+  return {
+    amount0: 0n,
+    amount1: getAmount1Delta(sqrtLower, sqrtUpper, liquidity, true),
+  };
+}
+
+/**
+ * Expected deposit and slippage minimums for NFPM.mint. The liquidity the
+ * desired amounts buy is fixed at the current price; the minimums are what
+ * that liquidity costs at the slippage-adjusted price bounds — token0 at the
+ * upper one (where it needs the least), token1 at the lower one.
+ */
+export function mintAmountsWithSlippage({
+  sqrtPriceX96,
+  tickLower,
+  tickUpper,
+  amount0Desired,
+  amount1Desired,
+  slippageBps,
+}: {
+  sqrtPriceX96: bigint;
+  tickLower: number;
+  tickUpper: number;
+  amount0Desired: bigint;
+  amount1Desired: bigint;
+  slippageBps: number;
+}): MintAmounts {
+  const sqrtLower = getSqrtRatioAtTick(tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(tickUpper);
+  const liquidity = getLiquidityForAmounts(
+    sqrtPriceX96,
+    sqrtLower,
+    sqrtUpper,
+    amount0Desired,
+    amount1Desired
+  );
+  const { amount0, amount1 } = amountsForMint(
+    sqrtPriceX96,
+    sqrtLower,
+    sqrtUpper,
+    liquidity
+  );
+
+  const bps = BigInt(Math.min(Math.max(Math.round(slippageBps), 0), 9_999));
+  const priceUp = shiftSqrtPrice(sqrtPriceX96, 10_000n + bps);
+  const priceDown = shiftSqrtPrice(sqrtPriceX96, 10_000n - bps);
+
+  return {
+    liquidity,
+    amount0,
+    amount1,
+    amount0Min: amountsForMint(priceUp, sqrtLower, sqrtUpper, liquidity)
+      .amount0,
+    amount1Min: amountsForMint(priceDown, sqrtLower, sqrtUpper, liquidity)
+      .amount1,
+  };
+}
+
+/**
+ * The amount of the other token that pairs with `amount` of token0 (or
+ * token1) in [tickLower, tickUpper] at the current price. Zero when the price
+ * sits outside the range, where a position holds only one of the two.
+ */
+export function pairedAmount({
+  sqrtPriceX96,
+  tickLower,
+  tickUpper,
+  amount,
+  isToken0,
+}: {
+  sqrtPriceX96: bigint;
+  tickLower: number;
+  tickUpper: number;
+  amount: bigint;
+  isToken0: boolean;
+}): bigint {
+  const sqrtLower = getSqrtRatioAtTick(tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(tickUpper);
+  if (sqrtPriceX96 <= sqrtLower || sqrtPriceX96 >= sqrtUpper) return 0n;
+
+  if (isToken0) {
+    const liquidity = getLiquidityForAmount0(sqrtPriceX96, sqrtUpper, amount);
+    return getAmount1Delta(sqrtLower, sqrtPriceX96, liquidity, true);
+  }
+  const liquidity = getLiquidityForAmount1(sqrtLower, sqrtPriceX96, amount);
+  return getAmount0Delta(sqrtPriceX96, sqrtUpper, liquidity, true);
+}
+
 /**
  * Low-level helper: builds calldata for NFPM.mint.
  * (We’re currently calling writeContract directly with the ABI,
@@ -131,6 +268,37 @@ export function buildMintPosition(params: {
   };
 }
 
+function toRawPosition(id: bigint, p: any): RawPosition {
+  return {
+    id,
+    token0: p[2] as Address,
+    token1: p[3] as Address,
+    fee: Number(p[4]),
+    tickLower: Number(p[5]),
+    tickUpper: Number(p[6]),
+    liquidity: BigInt(p[7]),
+    tokensOwed0: BigInt(p[10]),
+    tokensOwed1: BigInt(p[11]),
+  };
+}
+
+/**
+ * Reads one position by tokenId. Throws for ids the NFPM doesn't know
+ * ("Invalid token ID").
+ */
+export async function fetchPosition(
+  client: any,
+  tokenId: bigint
+): Promise<RawPosition> {
+  const p = await client.readContract({
+    address: UNI_V3_ADDRESSES.positionManager as Address,
+    abi: nfpmAbi,
+    functionName: "positions",
+    args: [tokenId],
+  });
+  return toRawPosition(tokenId, p);
+}
+
 export async function fetchUserPositions(
   client: any,
   owner: Address
@@ -172,18 +340,5 @@ export async function fetchUserPositions(
     )
   );
 
-  return raw.map((p, idx) => {
-    const id = ids[idx];
-    return {
-      id,
-      token0: p[2] as Address,
-      token1: p[3] as Address,
-      fee: Number(p[4]),
-      tickLower: Number(p[5]),
-      tickUpper: Number(p[6]),
-      liquidity: BigInt(p[7]),
-      tokensOwed0: BigInt(p[10]),
-      tokensOwed1: BigInt(p[11]),
-    };
-  });
+  return raw.map((p, idx) => toRawPosition(ids[idx], p));
 }
@@ -0,0 +1,114 @@
+// src/lib/univ3/priceImpact.ts
+import type { Address } from "viem";
+import { getSqrtPriceX96 } from "./pools";
+
+const Q192 = 1n << 192n;
+const PPM = 1_000_000n;
+
+// Above this impact (in %) the swap needs a typed confirmation
+export const PRICE_IMPACT_CONFIRM_PCT = Number(
+  process.env.NEXT_PUBLIC_PRICE_IMPACT_CONFIRM_PCT ?? 15
+);
+
+export type ImpactTier = "low" | "medium" | "high" | "severe";
+
+// One pool along a route, with its pre-trade price
+export type HopPrice = {
+  tokenIn: Address;
+  tokenOut: Address;
+  fee: number;
+  sqrtPriceX96: bigint;
+};
+
+/**
+ * Reads the pre-trade sqrtPriceX96 of every pool on a route and pairs it with
+ * the hop's tokens/fee. `tokens`/`fees`/`pools` are in trade order.
+ */
+export async function readHopPrices(
+  client: any,
+  {
+    tokens,
+    fees,
+    pools,
+  }: { tokens: Address[]; fees: number[]; pools: Address[] }
+): Promise<HopPrice[]> {
+  const prices = await Promise.all(
+    pools.map((p) => getSqrtPriceX96(client, p))
+  );
+  return prices.map((sqrtPriceX96, i) => ({
+    tokenIn: tokens[i],
+    tokenOut: tokens[i + 1],
+    fee: fees[i],
+    sqrtPriceX96,
+  }));
+}
+
+function zeroForOne(hop: { tokenIn: Address; tokenOut: Address }) {
+  return hop.tokenIn.toLowerCase() < hop.tokenOut.toLowerCase();
+}
+
+/**
+ * Output `amountIn` would buy at the pools' mid prices, net of LP fees —
+ * i.e. the output of an infinitely small trade scaled up.
+ */
+export function midPriceOutput(amountIn: bigint, hops: HopPrice[]): bigint {
+  let amount = amountIn;
+  for (const hop of hops) {
+    if (hop.sqrtPriceX96 === 0n) return 0n;
+    const priceX192 = hop.sqrtPriceX96 * hop.sqrtPriceX96;
+    amount = zeroForOne(hop)
+      ? (amount * priceX192) / Q192
+      : (amount * Q192) / priceX192;
+    amount = (amount * (PPM - BigInt(hop.fee))) / PPM;
+  }
+  return amount;
+}
+
+/**
+ * Price impact in percent: how much worse the quoted execution is than the
+ * fee-adjusted mid price. Accepts several legs for split trades.
+ */
+export function computePriceImpact({
+  legs,
+  amountOut,
+}: {
+  legs: { amountIn: bigint; hops: HopPrice[] }[];
+  amountOut: bigint;
+}): number | null {
+  const midOut = legs.reduce(
+    (acc, l) => acc + midPriceOutput(l.amountIn, l.hops),
+    0n
+  );
+  if (midOut === 0n) return null;
+  if (amountOut >= midOut) return 0;
+  return Number(((midOut - amountOut) * PPM) / midOut) / 10_000;
+}
+
+/**
+ * How far each pool's price moves (in percent), from the pre-trade
+ * sqrtPriceX96 to the quoter's sqrtPriceX96After. Lists are in trade order.
+ */
+export function poolPriceShifts(
+  hops: HopPrice[],
+  sqrtPriceX96AfterList: readonly bigint[]
+): number[] {
+  return hops.map((hop, i) => {
+    const after = sqrtPriceX96AfterList[i];
+    if (!after || hop.sqrtPriceX96 === 0n) return 0;
+    const before2 = hop.sqrtPriceX96 * hop.sqrtPriceX96;
+    const after2 = after * after;
+    const diff = before2 > after2 ? before2 - after2 : after2 - before2;
+    return Number((diff * PPM) / before2) / 10_000;
+  });
+}
+
+export function impactTier(pct: number): ImpactTier {
+  if (pct < 1) return "low";
+  if (pct < 5) return "medium";
+  if (pct < PRICE_IMPACT_CONFIRM_PCT) return "high";
+  return "severe";
+}
+
+export function needsImpactConfirmation(pct: number | null) {
+  return pct !== null && pct >= PRICE_IMPACT_CONFIRM_PCT;
+}
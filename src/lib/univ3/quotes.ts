@@ -3,6 +3,7 @@ import type { Address } from "viem";
 import { parseUnits } from "viem";
 import { UNI_V3_ADDRESSES } from "@/lib/addresses";
 import { getPoolAddress } from "./pools";
+import { encodeV3Path, encodeV3PathReversed } from "./path";
 
 // QuoterV2: quoteExactInputSingle(QuoteExactInputSingleParams)
 // struct QuoteExactInputSingleParams {
@@ -12,6 +13,15 @@ import { getPoolAddress } from "./pools";
 //   uint24  fee;
 //   uint160 sqrtPriceLimitX96;
 // }
+//
+// QuoterV2: quoteExactOutputSingle(QuoteExactOutputSingleParams)
+// struct QuoteExactOutputSingleParams {
+//   address tokenIn;
+//   address tokenOut;
+//   uint256 amount;          // ← desired amountOut
+//   uint24  fee;
+//   uint160 sqrtPriceLimitX96;
+// }
 const quoterV2Abi = [
   {
     name: "quoteExactInputSingle",
@@ -37,8 +47,66 @@ const quoterV2Abi = [
       { name: "gasEstimate", type: "uint256" },
     ],
   },
+  {
+    name: "quoteExactOutputSingle",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "fee", type: "uint24" },
+          { name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+      },
+    ],
+    outputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "sqrtPriceX96After", type: "uint160" },
+      { name: "initializedTicksCrossed", type: "uint32" },
+      { name: "gasEstimate", type: "uint256" },
+    ],
+  },
+  {
+    name: "quoteExactInput",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "path", type: "bytes" },
+      { name: "amountIn", type: "uint256" },
+    ],
+    outputs: [
+      { name: "amountOut", type: "uint256" },
+      { name: "sqrtPriceX96AfterList", type: "uint160[]" },
+      { name: "initializedTicksCrossedList", type: "uint32[]" },
+      { name: "gasEstimate", type: "uint256" },
+    ],
+  },
+  {
+    name: "quoteExactOutput",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "path", type: "bytes" },
+      { name: "amountOut", type: "uint256" },
+    ],
+    outputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "sqrtPriceX96AfterList", type: "uint160[]" },
+      { name: "initializedTicksCrossedList", type: "uint32[]" },
+      { name: "gasEstimate", type: "uint256" },
+    ],
+  },
 ] as const;
 
+/**
+ * Quotes an exact input through a single pool; `gasEstimate` is QuoterV2's
+ * measurement of the pool swap.
+ */
 export async function quoteExactInSingle(
   client: any,
   {
@@ -54,7 +122,7 @@ export async function quoteExactInSingle(
     amountInHuman: string;
     decimalsIn: number;
   }
-): Promise<bigint> {
+): Promise<{ amountOut: bigint; gasEstimate: bigint }> {
   // 1) Ensure pool exists for this fee tier
   const pool = await getPoolAddress(client, tokenIn, tokenOut, fee);
   if (!pool || pool === "0x0000000000000000000000000000000000000000") {
@@ -68,7 +136,7 @@ export async function quoteExactInSingle(
   }
 
   // 3) Quote via QuoterV2 (struct arg, correct order)
-  const [amountOut] = (await client.readContract({
+  const [amountOut, , , gasEstimate] = (await client.readContract({
     address: UNI_V3_ADDRESSES.quoterV2 as Address,
     abi: quoterV2Abi,
     functionName: "quoteExactInputSingle",
@@ -83,5 +151,141 @@ export async function quoteExactInSingle(
     ],
   })) as readonly [bigint, bigint, number, bigint];
 
-  return amountOut ?? 0n;
+  return { amountOut: amountOut ?? 0n, gasEstimate: gasEstimate ?? 0n };
+}
+
+/**
+ * Quotes the input required to receive exactly `amountOut` of tokenOut
+ * from a single pool.
+ */
+export async function quoteExactOutSingle(
+  client: any,
+  {
+    tokenIn,
+    tokenOut,
+    fee,
+    amountOut,
+  }: {
+    tokenIn: Address;
+    tokenOut: Address;
+    fee: number;
+    amountOut: bigint;
+  }
+): Promise<{ amountIn: bigint; gasEstimate: bigint }> {
+  const pool = await getPoolAddress(client, tokenIn, tokenOut, fee);
+  if (!pool || pool === "0x0000000000000000000000000000000000000000") {
+    throw new Error(`Pool not found for fee ${fee / 10000}%`);
+  }
+  if (amountOut === 0n) {
+    throw new Error("Enter a non-zero amount");
+  }
+
+  const [amountIn, , , gasEstimate] = (await client.readContract({
+    address: UNI_V3_ADDRESSES.quoterV2 as Address,
+    abi: quoterV2Abi,
+    functionName: "quoteExactOutputSingle",
+    args: [
+      {
+        tokenIn,
+        tokenOut,
+        amount: amountOut,
+        fee,
+        sqrtPriceLimitX96: 0n,
+      },
+    ],
+  })) as readonly [bigint, bigint, number, bigint];
+
+  return { amountIn: amountIn ?? 0n, gasEstimate: gasEstimate ?? 0n };
+}
+
+// Result of a path quote (QuoterV2.quoteExactInput / quoteExactOutput)
+export type PathQuote = {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96AfterList: readonly bigint[];
+  initializedTicksCrossedList: readonly number[];
+  gasEstimate: bigint;
+};
+
+/**
+ * Quotes an exact input along a (multi-hop) route in a single QuoterV2 call.
+ * `tokens`/`fees` are given in trade order (tokenIn first).
+ */
+export async function quoteExactInPath(
+  client: any,
+  {
+    tokens,
+    fees,
+    amountIn,
+  }: {
+    tokens: Address[];
+    fees: number[];
+    amountIn: bigint;
+  }
+): Promise<PathQuote> {
+  if (amountIn === 0n) {
+    throw new Error("Enter a non-zero amount");
+  }
+
+  const [
+    amountOut,
+    sqrtPriceX96AfterList,
+    initializedTicksCrossedList,
+    gasEstimate,
+  ] = (await client.readContract({
+    address: UNI_V3_ADDRESSES.quoterV2 as Address,
+    abi: quoterV2Abi,
+    functionName: "quoteExactInput",
+    args: [encodeV3Path(tokens, fees), amountIn],
+  })) as readonly [bigint, readonly bigint[], readonly number[], bigint];
+
+  return {
+    amountIn,
+    amountOut: amountOut ?? 0n,
+    sqrtPriceX96AfterList,
+    initializedTicksCrossedList,
+    gasEstimate,
+  };
+}
+
+/**
+ * Quotes the input required to receive exactly `amountOut` along a
+ * multi-hop route. `tokens`/`fees` are given in trade order (tokenIn first);
+ * the path is reversed here as QuoterV2 expects (so are the returned lists).
+ */
+export async function quoteExactOutPath(
+  client: any,
+  {
+    tokens,
+    fees,
+    amountOut,
+  }: {
+    tokens: Address[];
+    fees: number[];
+    amountOut: bigint;
+  }
+): Promise<PathQuote> {
+  if (amountOut === 0n) {
+    throw new Error("Enter a non-zero amount");
+  }
+
+  const [
+    amountIn,
+    sqrtPriceX96AfterList,
+    initializedTicksCrossedList,
+    gasEstimate,
+  ] = (await client.readContract({
+    address: UNI_V3_ADDRESSES.quoterV2 as Address,
+    abi: quoterV2Abi,
+    functionName: "quoteExactOutput",
+    args: [encodeV3PathReversed(tokens, fees), amountOut],
+  })) as readonly [bigint, readonly bigint[], readonly number[], bigint];
+
+  return {
+    amountIn: amountIn ?? 0n,
+    amountOut,
+    sqrtPriceX96AfterList,
+    initializedTicksCrossedList,
+    gasEstimate,
+  };
 }
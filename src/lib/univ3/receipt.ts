@@ -0,0 +1,127 @@
+// src/lib/univ3/receipt.ts
+import type { Address, Hex } from "viem";
+import { decodeEventLog, parseAbi } from "viem";
+
+const swapLogAbi = parseAbi([
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Deposit(address indexed dst, uint256 wad)",
+  "event Withdrawal(address indexed src, uint256 wad)",
+]);
+
+export type DecodedPoolSwap = {
+  pool: Address;
+  amount0: bigint;
+  amount1: bigint;
+  sqrtPriceX96: bigint;
+  tick: number;
+};
+
+export type SwapReceiptSummary = {
+  status: "success" | "reverted";
+  amountIn: bigint;
+  amountOut: bigint;
+  swaps: DecodedPoolSwap[];
+  gasUsed: bigint;
+  // gasUsed * effectiveGasPrice, in wei
+  gasCost: bigint;
+};
+
+const eq = (a?: string, b?: string) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Works out what a Universal Router swap actually did from its receipt:
+ * pool `Swap` events, ERC-20 `Transfer`s from the payer / to the recipient,
+ * and WETH `Deposit`/`Withdrawal` by the router for native ETH legs.
+ */
+export function summarizeSwapReceipt(
+  receipt: {
+    status: "success" | "reverted";
+    logs: { address: Address; data: Hex; topics: readonly Hex[] }[];
+    gasUsed: bigint;
+    effectiveGasPrice?: bigint;
+  },
+  {
+    payer,
+    recipient,
+    router,
+    tokenIn,
+    tokenOut,
+    weth,
+    nativeIn = false,
+    nativeOut = false,
+  }: {
+    payer: Address;
+    recipient: Address;
+    router: Address;
+    // wrapped addresses (WETH for native legs)
+    tokenIn: Address;
+    tokenOut: Address;
+    weth: Address;
+    nativeIn?: boolean;
+    nativeOut?: boolean;
+  }
+): SwapReceiptSummary {
+  const swaps: DecodedPoolSwap[] = [];
+  let paid = 0n;
+  let received = 0n;
+  let wrapped = 0n;
+  let unwrapped = 0n;
+
+  for (const log of receipt.logs) {
+    let decoded;
+    try {
+      decoded = decodeEventLog({
+        abi: swapLogAbi,
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      });
+    } catch {
+      continue; // not one of ours
+    }
+
+    const args = decoded.args as any;
+    switch (decoded.eventName) {
+      case "Swap":
+        swaps.push({
+          pool: log.address,
+          amount0: args.amount0,
+          amount1: args.amount1,
+          sqrtPriceX96: args.sqrtPriceX96,
+          tick: Number(args.tick),
+        });
+        break;
+      case "Transfer":
+        if (eq(log.address, tokenIn) && eq(args.from, payer)) {
+          paid += args.value;
+        }
+        if (eq(log.address, tokenOut) && eq(args.to, recipient)) {
+          received += args.value;
+        }
+        break;
+      case "Deposit":
+        if (eq(log.address, weth) && eq(args.dst, router)) wrapped += args.wad;
+        break;
+      case "Withdrawal":
+        if (eq(log.address, weth) && eq(args.src, router)) {
+          unwrapped += args.wad;
+        }
+        break;
+    }
+  }
+
+  // Native in: wrapped msg.value minus any refund unwrapped back to the payer.
+  // Native out: the router unwraps the output and forwards plain ETH.
+  const amountIn = nativeIn ? wrapped - unwrapped : paid;
+  const amountOut = nativeOut ? unwrapped : received;
+
+  return {
+    status: receipt.status,
+    amountIn,
+    amountOut,
+    swaps,
+    gasUsed: receipt.gasUsed,
+    gasCost: receipt.gasUsed * (receipt.effectiveGasPrice ?? 0n),
+  };
+}
@@ -0,0 +1,428 @@
+// src/lib/univ3/routing.ts
+import type { Address } from "viem";
+import { zeroAddress } from "viem";
+import { getPoolAddress } from "./pools";
+import type { PathQuote } from "./quotes";
+import { quotePath, type QuoteSource } from "./localQuote";
+import type { TradeType } from "./universalRouter";
+import { estimateRouteGas, estimateSwapL1Fee, weiToToken } from "./gasCost";
+
+// Shape of a row returned by /api/pools
+export type ApiPool = {
+  pool: string;
+  token0: string;
+  token1: string;
+  fee: number;
+  tickSpacing: number;
+  liquidity: string;
+  slot0?: { sqrtPriceX96: string; tick: number } | null;
+};
+
+export type PoolEdge = {
+  pool: Address;
+  tokenIn: Address;
+  tokenOut: Address;
+  fee: number;
+  liquidity: bigint;
+};
+
+// token (lowercased) → pools it can be swapped through
+export type TokenGraph = Map<string, PoolEdge[]>;
+
+export type RouteCandidate = {
+  tokens: Address[];
+  fees: number[];
+  pools: Address[];
+  // smallest in-range liquidity along the path, used to rank unquoted routes
+  bottleneckLiquidity: bigint;
+};
+
+export type QuotedRoute = RouteCandidate & {
+  quote: PathQuote & { source: QuoteSource };
+  gasUnits: bigint;
+  // gas priced in the ranked token (tokenOut for exactIn, tokenIn for exactOut)
+  gasCost: bigint | null;
+};
+
+// Prices gas in the token routes are ranked by
+export type GasPricing = {
+  gasPrice: bigint;
+  // OP-stack L1 data fee per calldata byte (null: none on this chain)
+  l1FeePerByte: bigint | null;
+  // base units of the ranked token that 1 ETH buys
+  tokenPerEth: bigint;
+};
+
+export const MAX_HOPS = 3;
+// Cap on routes sent to the quoter per search
+const MAX_QUOTED_CANDIDATES = 24;
+const POOL_LIST_TTL_MS = 5 * 60_000;
+const FALLBACK_FEES = [100, 500, 3000, 10000] as const;
+// 0.01 ETH: small enough to barely move a pool, big enough to avoid rounding
+const ETH_PRICE_PROBE_WEI = 10n ** 16n;
+const ETH_PRICE_TTL_MS = 60_000;
+
+let poolListCache: { t: number; pools: ApiPool[] } | null = null;
+
+/**
+ * Loads discovered pools from /api/pools (cached in memory for a few minutes).
+ * Returns an empty list if the API is unavailable.
+ */
+export async function fetchPoolList(force = false): Promise<ApiPool[]> {
+  if (
+    !force &&
+    poolListCache &&
+    Date.now() - poolListCache.t < POOL_LIST_TTL_MS
+  ) {
+    return poolListCache.pools;
+  }
+
+  try {
+    const res = await fetch("/api/pools");
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = (await res.json()) as ApiPool[];
+    const pools = Array.isArray(data)
+      ? data.filter(
+          (p) =>
+            p &&
+            typeof p.pool === "string" &&
+            p.pool.startsWith("0x") &&
+            p.token0 &&
+            p.token1
+        )
+      : [];
+    poolListCache = { t: Date.now(), pools };
+    return pools;
+  } catch (e) {
+    console.warn("[routing] /api/pools unavailable", e);
+    return [];
+  }
+}
+
+function liquidityOf(p: ApiPool) {
+  try {
+    return BigInt(p.liquidity || "0");
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Builds an undirected token graph; pools without active liquidity or an
+ * initialized price are skipped.
+ */
+export function buildTokenGraph(pools: ApiPool[]): TokenGraph {
+  const graph: TokenGraph = new Map();
+
+  const addEdge = (edge: PoolEdge) => {
+    const key = edge.tokenIn.toLowerCase();
+    const list = graph.get(key) ?? [];
+    list.push(edge);
+    graph.set(key, list);
+  };
+
+  for (const p of pools) {
+    const liquidity = liquidityOf(p);
+    if (liquidity === 0n) continue;
+    if (p.slot0 && p.slot0.sqrtPriceX96 === "0") continue;
+
+    const base = {
+      pool: p.pool as Address,
+      fee: Number(p.fee),
+      liquidity,
+    };
+    addEdge({
+      ...base,
+      tokenIn: p.token0 as Address,
+      tokenOut: p.token1 as Address,
+    });
+    addEdge({
+      ...base,
+      tokenIn: p.token1 as Address,
+      tokenOut: p.token0 as Address,
+    });
+  }
+
+  return graph;
+}
+
+/**
+ * Enumerates simple paths (no repeated token, no repeated pool) from tokenIn
+ * to tokenOut with at most `maxHops` pools. Every fee tier is its own edge.
+ */
+export function enumerateRoutes(
+  graph: TokenGraph,
+  tokenIn: Address,
+  tokenOut: Address,
+  maxHops = MAX_HOPS
+): RouteCandidate[] {
+  const target = tokenOut.toLowerCase();
+  const out: RouteCandidate[] = [];
+
+  const walk = (
+    current: Address,
+    tokens: Address[],
+    fees: number[],
+    pools: Address[],
+    bottleneck: bigint | null
+  ) => {
+    if (pools.length >= maxHops) return;
+
+    for (const edge of graph.get(current.toLowerCase()) ?? []) {
+      const next = edge.tokenOut;
+      if (tokens.some((t) => t.toLowerCase() === next.toLowerCase())) continue;
+
+      const nextBottleneck =
+        bottleneck === null || edge.liquidity < bottleneck
+          ? edge.liquidity
+          : bottleneck;
+
+      if (next.toLowerCase() === target) {
+        out.push({
+          tokens: [...tokens, next],
+          fees: [...fees, edge.fee],
+          pools: [...pools, edge.pool],
+          bottleneckLiquidity: nextBottleneck,
+        });
+        continue;
+      }
+
+      walk(
+        next,
+        [...tokens, next],
+        [...fees, edge.fee],
+        [...pools, edge.pool],
+        nextBottleneck
+      );
+    }
+  };
+
+  walk(tokenIn, [tokenIn], [], [], null);
+  return out;
+}
+
+// Shorter routes first, then deeper bottleneck liquidity
+export function rankUnquoted(routes: RouteCandidate[]) {
+  return [...routes].sort((a, b) => {
+    if (a.pools.length !== b.pools.length) {
+      return a.pools.length - b.pools.length;
+    }
+    return a.bottleneckLiquidity > b.bottleneckLiquidity
+      ? -1
+      : a.bottleneckLiquidity < b.bottleneckLiquidity
+      ? 1
+      : 0;
+  });
+}
+
+/**
+ * When /api/pools is empty (e.g. KV not configured), probe the factory for
+ * direct and via-hub pools so routing still works for common pairs.
+ */
+async function fallbackRoutes(
+  client: any,
+  tokenIn: Address,
+  tokenOut: Address,
+  hubs: Address[]
+): Promise<RouteCandidate[]> {
+  const tokens = [tokenIn, tokenOut, ...hubs].filter(
+    (t, i, arr) =>
+      arr.findIndex((x) => x.toLowerCase() === t.toLowerCase()) === i
+  );
+
+  const probes: Promise<ApiPool | null>[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    for (let j = i + 1; j < tokens.length; j++) {
+      for (const fee of FALLBACK_FEES) {
+        const [a, b] = [tokens[i], tokens[j]];
+        probes.push(
+          getPoolAddress(client, a, b, fee)
+            .then((pool) =>
+              pool && pool.toLowerCase() !== zeroAddress
+                ? {
+                    pool,
+                    token0: a,
+                    token1: b,
+                    fee,
+                    tickSpacing: 0,
+                    // unknown here; quoting decides which ones work
+                    liquidity: "1",
+                  }
+                : null
+            )
+            .catch(() => null)
+        );
+      }
+    }
+  }
+
+  const pools = (await Promise.all(probes)).filter(
+    (p): p is ApiPool => p !== null
+  );
+  return enumerateRoutes(buildTokenGraph(pools), tokenIn, tokenOut);
+}
+
+/**
+ * All candidate routes for a pair: graph search over /api/pools, or an
+ * on-chain probe through `hubs` when the pool list is unavailable.
+ */
+export async function findRouteCandidates(
+  client: any,
+  {
+    tokenIn,
+    tokenOut,
+    hubs = [],
+    maxHops = MAX_HOPS,
+  }: {
+    tokenIn: Address;
+    tokenOut: Address;
+    hubs?: Address[];
+    maxHops?: number;
+  }
+): Promise<RouteCandidate[]> {
+  const pools = await fetchPoolList();
+  const fromGraph = pools.length
+    ? enumerateRoutes(buildTokenGraph(pools), tokenIn, tokenOut, maxHops)
+    : [];
+  if (fromGraph.length) return rankUnquoted(fromGraph);
+
+  return rankUnquoted(await fallbackRoutes(client, tokenIn, tokenOut, hubs));
+}
+
+/**
+ * Quotes every candidate (locally from tick data, or one QuoterV2 path call
+ * each when that isn't possible) and returns them best-first: highest output
+ * for exactIn, lowest input for exactOut. With `gasPricing` the comparison is
+ * net of each route's gas cost, so a longer route has to beat a shorter one
+ * by more than the extra gas it burns.
+ * Candidates whose quote reverts are dropped.
+ */
+export async function quoteRoutes(
+  client: any,
+  candidates: RouteCandidate[],
+  {
+    tradeType,
+    amount,
+    gasPricing,
+  }: { tradeType: TradeType; amount: bigint; gasPricing?: GasPricing | null }
+): Promise<QuotedRoute[]> {
+  const settled = await Promise.allSettled(
+    candidates.slice(0, MAX_QUOTED_CANDIDATES).map(async (c) => {
+      const quote = await quotePath(client, {
+        tokens: c.tokens,
+        fees: c.fees,
+        pools: c.pools,
+        tradeType,
+        amount,
+      });
+      const gasUnits = estimateRouteGas(quote, c.pools.length);
+      const gasCost = gasPricing
+        ? weiToToken(
+            gasUnits * gasPricing.gasPrice +
+              estimateSwapL1Fee(gasPricing.l1FeePerByte, [c.pools.length]),
+            gasPricing.tokenPerEth
+          )
+        : null;
+      return { ...c, quote, gasUnits, gasCost };
+    })
+  );
+
+  const quoted = settled
+    .filter(
+      (r): r is PromiseFulfilledResult<QuotedRoute> => r.status === "fulfilled"
+    )
+    .map((r) => r.value)
+    .filter((r) =>
+      tradeType === "exactIn" ? r.quote.amountOut > 0n : r.quote.amountIn > 0n
+    );
+
+  // exactIn: output minus gas, higher first; exactOut: input plus gas, lower first
+  const score = (r: QuotedRoute) =>
+    tradeType === "exactIn"
+      ? -(r.quote.amountOut - (r.gasCost ?? 0n))
+      : r.quote.amountIn + (r.gasCost ?? 0n);
+  quoted.sort((a, b) => {
+    const sa = score(a);
+    const sb = score(b);
+    return sa < sb ? -1 : sa > sb ? 1 : 0;
+  });
+
+  return quoted;
+}
+
+/**
+ * Finds the best route for a trade. With a zero amount nothing is quoted and
+ * the shortest / deepest candidate is returned instead.
+ */
+export async function findBestRoute(
+  client: any,
+  {
+    tokenIn,
+    tokenOut,
+    tradeType,
+    amount,
+    hubs,
+    gasPricing,
+  }: {
+    tokenIn: Address;
+    tokenOut: Address;
+    tradeType: TradeType;
+    amount: bigint;
+    hubs?: Address[];
+    gasPricing?: GasPricing | null;
+  }
+): Promise<{
+  best: RouteCandidate | QuotedRoute;
+  quoted: QuotedRoute[];
+} | null> {
+  const candidates = await findRouteCandidates(client, {
+    tokenIn,
+    tokenOut,
+    hubs,
+  });
+  if (!candidates.length) return null;
+  if (amount === 0n) return { best: candidates[0], quoted: [] };
+
+  const quoted = await quoteRoutes(client, candidates, {
+    tradeType,
+    amount,
+    gasPricing,
+  });
+  if (!quoted.length) return null;
+  return { best: quoted[0], quoted };
+}
+
+const ethPriceCache = new Map<string, { t: number; perEth: bigint | null }>();
+
+/**
+ * How many base units of `token` 1 ETH buys, from the best WETH → token route
+ * (quoted at 0.01 ETH). Null when there is no route. Cached for a minute.
+ */
+export async function tokenPerEth(
+  client: any,
+  { token, weth, hubs }: { token: Address; weth: Address; hubs?: Address[] }
+): Promise<bigint | null> {
+  if (token.toLowerCase() === weth.toLowerCase()) return 10n ** 18n;
+
+  const key = token.toLowerCase();
+  const cached = ethPriceCache.get(key);
+  if (cached && Date.now() - cached.t < ETH_PRICE_TTL_MS) return cached.perEth;
+
+  let perEth: bigint | null = null;
+  try {
+    const found = await findBestRoute(client, {
+      tokenIn: weth,
+      tokenOut: token,
+      tradeType: "exactIn",
+      amount: ETH_PRICE_PROBE_WEI,
+      hubs,
+    });
+    const out = found?.quoted[0]?.quote.amountOut ?? 0n;
+    if (out > 0n) perEth = (out * 10n ** 18n) / ETH_PRICE_PROBE_WEI;
+  } catch (e) {
+    console.warn("[routing] no ETH price for", token, e);
+  }
+
+  ethPriceCache.set(key, { t: Date.now(), perEth });
+  return perEth;
+}
@@ -0,0 +1,140 @@
+// src/lib/univ3/split.ts
+import { quotePath } from "./localQuote";
+import type { RouteCandidate } from "./routing";
+
+export const SPLIT_STEP_PERCENT = 5;
+export const MAX_SPLIT_ROUTES = 3;
+
+export type SplitLeg = {
+  route: RouteCandidate;
+  percent: number;
+  amountIn: bigint;
+  amountOut: bigint;
+};
+
+export type SplitPlan = {
+  legs: SplitLeg[];
+  amountOut: bigint;
+};
+
+function sharesPool(a: RouteCandidate, b: RouteCandidate) {
+  const pools = new Set(a.pools.map((p) => p.toLowerCase()));
+  return b.pools.some((p) => pools.has(p.toLowerCase()));
+}
+
+/**
+ * Picks up to `max` routes (in the given best-first order) that don't touch
+ * the same pool. Each slice is quoted on its own, so routes sharing a pool
+ * would overstate the combined output.
+ */
+export function pickDisjointRoutes(
+  routes: RouteCandidate[],
+  max = MAX_SPLIT_ROUTES
+): RouteCandidate[] {
+  const picked: RouteCandidate[] = [];
+  for (const r of routes) {
+    if (picked.length >= max) break;
+    if (picked.some((p) => sharesPool(p, r))) continue;
+    picked.push(r);
+  }
+  return picked;
+}
+
+/**
+ * Splits an exact input across routes in `stepPercent` slices to maximize the
+ * total output. Every route is quoted at every slice size, then a knapsack
+ * over the slices picks the best allocation. Returns null when there are fewer
+ * than two usable routes.
+ */
+export async function findBestSplit(
+  client: any,
+  routes: RouteCandidate[],
+  amountIn: bigint,
+  {
+    stepPercent = SPLIT_STEP_PERCENT,
+    maxRoutes = MAX_SPLIT_ROUTES,
+  }: { stepPercent?: number; maxRoutes?: number } = {}
+): Promise<SplitPlan | null> {
+  if (amountIn === 0n) return null;
+
+  const candidates = pickDisjointRoutes(routes, maxRoutes);
+  if (candidates.length < 2) return null;
+
+  const steps = Math.floor(100 / stepPercent);
+  const sliceAmount = (k: number) =>
+    (amountIn * BigInt(k * stepPercent)) / 100n;
+
+  // outputs[r][k] = output of route r for k slices (null if the quote reverted)
+  const outputs: (bigint | null)[][] = await Promise.all(
+    candidates.map(async (route) => {
+      const settled = await Promise.allSettled(
+        Array.from({ length: steps }, (_, i) =>
+          quotePath(client, {
+            tokens: route.tokens,
+            fees: route.fees,
+            pools: route.pools,
+            tradeType: "exactIn",
+            amount: sliceAmount(i + 1),
+          })
+        )
+      );
+      return [
+        0n,
+        ...settled.map((r) =>
+          r.status === "fulfilled" ? r.value.amountOut : null
+        ),
+      ];
+    })
+  );
+
+  // best[k] = best output using k slices over the routes seen so far
+  let best: (bigint | null)[] = [0n, ...Array(steps).fill(null)];
+  const choices: number[][] = [];
+
+  for (const out of outputs) {
+    const next: (bigint | null)[] = Array(steps + 1).fill(null);
+    const choice: number[] = Array(steps + 1).fill(0);
+
+    for (let k = 0; k <= steps; k++) {
+      for (let j = 0; j <= k; j++) {
+        const prev = best[k - j];
+        const here = out[j];
+        if (prev === null || here === null) continue;
+        const total = prev + here;
+        if (next[k] === null || total > next[k]!) {
+          next[k] = total;
+          choice[k] = j;
+        }
+      }
+    }
+
+    best = next;
+    choices.push(choice);
+  }
+
+  if (best[steps] === null) return null;
+
+  // Walk the choices back to per-route slice counts
+  const slices: number[] = Array(candidates.length).fill(0);
+  let remaining = steps;
+  for (let r = candidates.length - 1; r >= 0; r--) {
+    slices[r] = choices[r][remaining];
+    remaining -= slices[r];
+  }
+
+  const legs: SplitLeg[] = candidates
+    .map((route, r) => ({
+      route,
+      percent: slices[r] * stepPercent,
+      amountIn: sliceAmount(slices[r]),
+      amountOut: outputs[r][slices[r]] ?? 0n,
+    }))
+    .filter((l) => l.percent > 0)
+    .sort((a, b) => b.percent - a.percent);
+
+  // Rounding dust from the slice sizes goes to the largest leg
+  const allocated = legs.reduce((acc, l) => acc + l.amountIn, 0n);
+  if (legs.length) legs[0].amountIn += amountIn - allocated;
+
+  return { legs, amountOut: best[steps]! };
+}
@@ -0,0 +1,160 @@
+// src/lib/univ3/tickLens.ts
+import type { Address } from "viem";
+import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import { getPoolState } from "./pools";
+import type { PoolSnapshot, PopulatedTick } from "@/lib/math/swapSimulator";
+
+const tickLensAbi = [
+  {
+    type: "function",
+    name: "getPopulatedTicksInWord",
+    stateMutability: "view",
+    inputs: [
+      { name: "pool", type: "address" },
+      { name: "tickBitmapIndex", type: "int16" },
+    ],
+    outputs: [
+      {
+        name: "populatedTicks",
+        type: "tuple[]",
+        components: [
+          { name: "tick", type: "int24" },
+          { name: "liquidityNet", type: "int128" },
+          { name: "liquidityGross", type: "uint128" },
+        ],
+      },
+    ],
+  },
+] as const;
+
+// Bitmap words loaded on each side of the current tick on first use
+export const TICK_WORDS_AROUND = 2;
+// Pool price/liquidity goes stale quickly; the tick map much less so
+const STATE_TTL_MS = 15_000;
+const TICKS_TTL_MS = 60_000;
+
+type PoolState = {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  tickSpacing: number;
+};
+
+const stateCache = new Map<string, { t: number; state: PoolState }>();
+const wordCache = new Map<
+  string,
+  { t: number; words: Map<number, PopulatedTick[]> }
+>();
+
+/**
+ * Initialized ticks in one tick-bitmap word (256 tickSpacings) of a pool.
+ */
+export async function getPopulatedTicksInWord(
+  client: any,
+  pool: Address,
+  word: number
+): Promise<PopulatedTick[]> {
+  const rows = (await client.readContract({
+    address: UNI_V3_ADDRESSES.tickLens as Address,
+    abi: tickLensAbi,
+    functionName: "getPopulatedTicksInWord",
+    args: [pool, word],
+  })) as readonly { tick: number; liquidityNet: bigint }[];
+
+  return rows.map((r) => ({
+    tick: Number(r.tick),
+    liquidityNet: BigInt(r.liquidityNet),
+  }));
+}
+
+async function readPoolState(client: any, pool: Address): Promise<PoolState> {
+  const key = pool.toLowerCase();
+  const hit = stateCache.get(key);
+  if (hit && Date.now() - hit.t < STATE_TTL_MS) return hit.state;
+
+  const s = await getPoolState(client, pool);
+  if (!s.initialized) throw new Error("Pool not initialized");
+  const state = {
+    sqrtPriceX96: BigInt((s.slot0 as any)[0]),
+    tick: Number((s.slot0 as any)[1]),
+    liquidity: s.liquidity,
+    tickSpacing: s.tickSpacing,
+  };
+  stateCache.set(key, { t: Date.now(), state });
+  return state;
+}
+
+/**
+ * Makes sure every word in [fromWord, toWord] is cached for `pool`.
+ */
+export async function loadTickWords(
+  client: any,
+  pool: Address,
+  fromWord: number,
+  toWord: number
+): Promise<Map<number, PopulatedTick[]>> {
+  const key = pool.toLowerCase();
+  let entry = wordCache.get(key);
+  if (!entry || Date.now() - entry.t >= TICKS_TTL_MS) {
+    entry = { t: Date.now(), words: new Map() };
+    wordCache.set(key, entry);
+  }
+
+  const missing: number[] = [];
+  for (let w = fromWord; w <= toWord; w++) {
+    if (!entry.words.has(w)) missing.push(w);
+  }
+
+  const loaded = await Promise.all(
+    missing.map((w) => getPopulatedTicksInWord(client, pool, w))
+  );
+  missing.forEach((w, i) => entry!.words.set(w, loaded[i]));
+
+  return entry.words;
+}
+
+/**
+ * Current pool state plus initialized ticks for a contiguous word range around
+ * the current tick (widened to include `includeWord` when given).
+ */
+export async function loadPoolSnapshot(
+  client: any,
+  pool: Address,
+  fee: number,
+  { includeWord }: { includeWord?: number } = {}
+): Promise<PoolSnapshot> {
+  const state = await readPoolState(client, pool);
+  const currentWord = Math.floor(state.tick / state.tickSpacing) >> 8;
+
+  let minWord = currentWord - TICK_WORDS_AROUND;
+  let maxWord = currentWord + TICK_WORDS_AROUND;
+
+  // Extend to whatever is already cached next to the range
+  const cached = wordCache.get(pool.toLowerCase());
+  if (cached && Date.now() - cached.t < TICKS_TTL_MS) {
+    while (cached.words.has(minWord - 1)) minWord--;
+    while (cached.words.has(maxWord + 1)) maxWord++;
+  }
+  if (includeWord !== undefined) {
+    minWord = Math.min(minWord, includeWord);
+    maxWord = Math.max(maxWord, includeWord);
+  }
+
+  const words = await loadTickWords(client, pool, minWord, maxWord);
+  const ticks: PopulatedTick[] = [];
+  for (let w = minWord; w <= maxWord; w++) ticks.push(...(words.get(w) ?? []));
+  ticks.sort((a, b) => a.tick - b.tick);
+
+  return { ...state, fee, ticks, minWord, maxWord };
+}
+
+/** Drops cached state and ticks (all pools, or one). */
+export function clearTickCache(pool?: Address) {
+  if (!pool) {
+    stateCache.clear();
+    wordCache.clear();
+    return;
+  }
+  stateCache.delete(pool.toLowerCase());
+  wordCache.delete(pool.toLowerCase());
+}
@@ -0,0 +1,256 @@
+// src/lib/univ3/transferTax.ts
+import type { Address, Hex } from "viem";
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  multicall3Abi,
+} from "viem";
+import { UNI_V3_ADDRESSES } from "@/lib/addresses";
+import type { Token } from "@/lib/tokens";
+
+// Token list tags that mark a token as taxed / rebasing
+const FOT_TAGS = ["fee-on-transfer", "fot", "tax", "taxed"];
+const REBASING_TAGS = ["rebasing", "rebase"];
+
+// Stand-in holder when no wallet is connected
+const PROBE_HOLDER = "0x1000000000000000000000000000000000000001" as Address;
+// Below this the difference is rounding in the token's own math
+const TAX_DUST_BPS = 1;
+
+export type TransferTax = {
+  // pool → recipient: what the swap output loses on the way out
+  buyBps: number | null;
+  // user → router: first leg of the transfer-first flow
+  sellBps: number | null;
+  // router → pool: V3 pools revert on any shortfall here
+  poolInBps: number | null;
+  rebasing: boolean;
+  source: "simulation" | "tag";
+};
+
+export function isTaxed(tax: TransferTax | null | undefined) {
+  return (
+    !!tax &&
+    ((tax.buyBps ?? 0) > 0 ||
+      (tax.sellBps ?? 0) > 0 ||
+      (tax.poolInBps ?? 0) > 0)
+  );
+}
+
+/**
+ * Needs the transfer-first flow (the router pulls the tokens, then swaps
+ * whatever actually arrived): taxed on the way to the router, or rebasing.
+ */
+export function needsTransferFirst(tax: TransferTax | null | undefined) {
+  return !!tax && ((tax.sellBps ?? 0) > 0 || tax.rebasing);
+}
+
+function tagged(token: Token | undefined, tags: string[]) {
+  return !!token?.tags?.some((t) => tags.includes(t.toLowerCase()));
+}
+
+/**
+ * Reads FoT / rebasing markers from the token list. A tag only says the token
+ * is taxed, not by how much, so amounts stay null.
+ */
+export function taxFromTags(token: Token | undefined): TransferTax | null {
+  const fot = tagged(token, FOT_TAGS);
+  const rebasing = tagged(token, REBASING_TAGS);
+  if (!fot && !rebasing) return null;
+  return {
+    buyBps: null,
+    sellBps: null,
+    poolInBps: null,
+    rebasing,
+    source: "tag",
+  };
+}
+
+function lossBps(sent: bigint, received: bigint): number {
+  if (sent === 0n || received >= sent) return 0;
+  const bps = Number(((sent - received) * 10_000n) / sent);
+  return bps < TAX_DUST_BPS ? 0 : bps;
+}
+
+function call(target: Address, callData: Hex) {
+  return { target, allowFailure: true, callData };
+}
+
+function balanceOfCall(token: Address, owner: Address) {
+  return call(
+    token,
+    encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    })
+  );
+}
+
+function transferCall(token: Address, to: Address, amount: bigint) {
+  return call(
+    token,
+    encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [to, amount],
+    })
+  );
+}
+
+// Makes `from` (which carries Multicall3 code in the override) call token.transfer
+function transferFromContract(
+  from: Address,
+  token: Address,
+  to: Address,
+  amount: bigint
+) {
+  return call(
+    from,
+    encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: "aggregate3",
+      args: [[{ ...transferCall(token, to, amount), allowFailure: false }]],
+    })
+  );
+}
+
+/**
+ * Measures a token's transfer tax along the paths a swap uses, in one
+ * eth_call. Multicall3 bytecode is placed on the holder, the pool and the
+ * router via state overrides so each can send tokens as itself:
+ *   pool → holder (buy), holder → router (sell), router → pool (pool input).
+ * The pool seeds the holder with 0.1% of its balance, so no wallet balance is
+ * needed. Returns null when the probe can't run (no liquidity, token blocks
+ * contract senders, RPC without state overrides, …).
+ */
+export async function detectTransferTax(
+  client: any,
+  {
+    token,
+    pool,
+    account,
+  }: { token: Address; pool: Address; account?: Address }
+): Promise<TransferTax | null> {
+  const router = UNI_V3_ADDRESSES.universalRouter as Address;
+  const holder = account ?? PROBE_HOLDER;
+
+  try {
+    const [code, poolBalance] = await Promise.all([
+      client.getCode({ address: UNI_V3_ADDRESSES.multicall3 as Address }),
+      client.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [pool],
+      }) as Promise<bigint>,
+    ]);
+    if (!code || code === "0x") return null;
+
+    const seed = poolBalance / 1000n;
+    if (seed === 0n) return null;
+    const sellAmount = seed / 2n;
+    const poolInAmount = seed / 4n;
+
+    const calls = [
+      balanceOfCall(token, holder), // 0
+      transferFromContract(pool, token, holder, seed), // 1
+      balanceOfCall(token, holder), // 2
+      balanceOfCall(token, router), // 3
+      transferCall(token, router, sellAmount), // 4 (sent by holder)
+      balanceOfCall(token, router), // 5
+      balanceOfCall(token, pool), // 6
+      transferFromContract(router, token, pool, poolInAmount), // 7
+      balanceOfCall(token, pool), // 8
+    ];
+
+    const { data } = await client.call({
+      to: holder,
+      data: encodeFunctionData({
+        abi: multicall3Abi,
+        functionName: "aggregate3",
+        args: [calls],
+      }),
+      stateOverride: [holder, pool, router].map((address) => ({
+        address,
+        code,
+      })),
+    });
+    if (!data) return null;
+
+    const results = decodeFunctionResult({
+      abi: multicall3Abi,
+      functionName: "aggregate3",
+      data,
+    }) as readonly { success: boolean; returnData: Hex }[];
+
+    const balance = (i: number) =>
+      results[i]?.success
+        ? (decodeFunctionResult({
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            data: results[i].returnData,
+          }) as bigint)
+        : null;
+    const delta = (before: number, step: number, after: number) => {
+      const a = balance(before);
+      const b = balance(after);
+      return a === null || b === null || !results[step]?.success
+        ? null
+        : b - a;
+    };
+
+    const bought = delta(0, 1, 2);
+    const sold = delta(3, 4, 5);
+    const pooled = delta(6, 7, 8);
+
+    return {
+      buyBps: bought === null ? null : lossBps(seed, bought),
+      sellBps: sold === null ? null : lossBps(sellAmount, sold),
+      poolInBps: pooled === null ? null : lossBps(poolInAmount, pooled),
+      rebasing: false,
+      source: "simulation",
+    };
+  } catch (e) {
+    console.warn("[transferTax] probe failed", token, e);
+    return null;
+  }
+}
+
+const TAX_TTL_MS = 10 * 60_000;
+const taxCache = new Map<string, { t: number; tax: TransferTax | null }>();
+
+/**
+ * Simulated tax for a token traded through `pool`, with the list's rebasing
+ * tag folded in; falls back to the tag alone when the probe can't run.
+ * Cached per token / pool / account for a few minutes.
+ */
+export async function getTransferTax(
+  client: any,
+  {
+    token,
+    meta,
+    pool,
+    account,
+  }: { token: Address; meta?: Token; pool: Address; account?: Address }
+): Promise<TransferTax | null> {
+  const key = `${token}:${pool}:${account ?? ""}`.toLowerCase();
+  const cached = taxCache.get(key);
+  if (cached && Date.now() - cached.t < TAX_TTL_MS) return cached.tax;
+
+  const fromTag = taxFromTags(meta);
+  const simulated = await detectTransferTax(client, { token, pool, account });
+  const tax = simulated
+    ? { ...simulated, rebasing: fromTag?.rebasing ?? false }
+    : fromTag;
+
+  taxCache.set(key, { t: Date.now(), tax });
+  return tax;
+}
+
+/** Amount left after a tax in bps (null counts as untaxed). */
+export function afterTax(amount: bigint, bps: number | null | undefined) {
+  if (!bps) return amount;
+  return amount - (amount * BigInt(bps)) / 10_000n;
+}
@@ -0,0 +1,321 @@
+// src/lib/univ3/universalRouter.ts
+import type { Address, Hex } from "viem";
+import { encodeAbiParameters, parseAbiParameters } from "viem";
+import { encodeV3Path, encodeV3PathReversed } from "./path";
+import {
+  PERMIT2_PERMIT,
+  encodePermit2Permit,
+  type PermitSingle,
+} from "./permit2";
+
+export const universalRouterAbi = [
+  {
+    type: "function",
+    name: "execute",
+    stateMutability: "payable",
+    inputs: [
+      { name: "commands", type: "bytes" },
+      { name: "inputs", type: "bytes[]" },
+      { name: "deadline", type: "uint256" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// Universal Router command bytes (see Commands.sol)
+export const V3_SWAP_EXACT_IN = "0x00" as const;
+export const V3_SWAP_EXACT_OUT = "0x01" as const;
+export const PERMIT2_TRANSFER_FROM = "0x02" as const;
+export const SWEEP = "0x04" as const;
+export const WRAP_ETH = "0x0b" as const;
+export const UNWRAP_WETH = "0x0c" as const;
+
+// Recipient sentinels understood by the router (see Constants.sol)
+export const MSG_SENDER =
+  "0x0000000000000000000000000000000000000001" as Address;
+export const ADDRESS_THIS =
+  "0x0000000000000000000000000000000000000002" as Address;
+// amountIn sentinel: swap the router's whole balance of the input token
+export const CONTRACT_BALANCE = 1n << 255n;
+
+export type TradeType = "exactIn" | "exactOut";
+
+export function encodeV3SwapExactIn({
+  recipient,
+  amountIn,
+  amountOutMinimum,
+  path,
+  payerIsUser,
+}: {
+  recipient: Address;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+  path: Hex;
+  payerIsUser: boolean;
+}): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters(
+      "address recipient, uint256 amountIn, uint256 amountOutMinimum, bytes path, bool payerIsUser"
+    ),
+    [recipient, amountIn, amountOutMinimum, path, payerIsUser]
+  );
+}
+
+// NOTE: `path` must be encoded tokenOut → tokenIn (see encodeV3PathReversed)
+export function encodeV3SwapExactOut({
+  recipient,
+  amountOut,
+  amountInMaximum,
+  path,
+  payerIsUser,
+}: {
+  recipient: Address;
+  amountOut: bigint;
+  amountInMaximum: bigint;
+  path: Hex;
+  payerIsUser: boolean;
+}): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters(
+      "address recipient, uint256 amountOut, uint256 amountInMaximum, bytes path, bool payerIsUser"
+    ),
+    [recipient, amountOut, amountInMaximum, path, payerIsUser]
+  );
+}
+
+// WRAP_ETH / UNWRAP_WETH share the same (recipient, amountMin) layout
+export function encodeWrapEth(recipient: Address, amountMin: bigint): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters("address recipient, uint256 amountMin"),
+    [recipient, amountMin]
+  );
+}
+
+export function encodeUnwrapWeth(recipient: Address, amountMin: bigint): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters("address recipient, uint256 amountMin"),
+    [recipient, amountMin]
+  );
+}
+
+export function encodeSweep(
+  token: Address,
+  recipient: Address,
+  amountMin: bigint
+): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters("address token, address recipient, uint256 amountMin"),
+    [token, recipient, amountMin]
+  );
+}
+
+// Pulls `amount` of `token` from the caller via Permit2
+export function encodePermit2TransferFrom(
+  token: Address,
+  recipient: Address,
+  amount: bigint
+): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters("address token, address recipient, uint160 amount"),
+    [token, recipient, amount]
+  );
+}
+
+/** Concatenates single-byte commands into the `commands` bytes argument. */
+export function joinCommands(commands: Hex[]): Hex {
+  return `0x${commands.map((c) => c.slice(2)).join("")}` as Hex;
+}
+
+export type SwapExecuteParams = {
+  tradeType: TradeType;
+  recipient: Address;
+  // route in trade order, tokenIn first (wrapped addresses only)
+  tokens: Address[];
+  fees: number[];
+  // exactIn: amountIn + amountOutMinimum; exactOut: amountOut + amountInMaximum
+  amountIn: bigint;
+  amountOut: bigint;
+  amountOutMinimum: bigint;
+  amountInMaximum: bigint;
+  // native ETH in: wrap msg.value first; native ETH out: unwrap at the end
+  nativeIn?: boolean;
+  nativeOut?: boolean;
+  // signed Permit2 allowance, prepended as PERMIT2_PERMIT
+  permit?: { permit: PermitSingle; signature: Hex };
+  // fee-on-transfer / rebasing input (exactIn only): move the tokens to the
+  // router first, then swap whatever balance actually arrived
+  transferFirst?: boolean;
+};
+
+/**
+ * Builds the `execute(commands, inputs, deadline)` arguments for a V3 swap,
+ * including the WRAP_ETH / UNWRAP_WETH legs for native ETH trades and an
+ * optional leading PERMIT2_PERMIT. With `transferFirst` the input goes
+ * through PERMIT2_TRANSFER_FROM and the swap spends CONTRACT_BALANCE.
+ */
+export function buildSwapExecuteArgs({
+  tradeType,
+  recipient,
+  tokens,
+  fees,
+  amountIn,
+  amountOut,
+  amountOutMinimum,
+  amountInMaximum,
+  nativeIn = false,
+  nativeOut = false,
+  permit,
+  transferFirst = false,
+}: SwapExecuteParams): { commands: Hex; inputs: Hex[]; value: bigint } {
+  const commands: Hex[] = [];
+  const inputs: Hex[] = [];
+
+  if (permit) {
+    commands.push(PERMIT2_PERMIT);
+    inputs.push(encodePermit2Permit(permit.permit, permit.signature));
+  }
+
+  // ETH paid in is wrapped by the router, so the swap pays from router balance
+  const payerIsUser = !nativeIn;
+  // When unwrapping, WETH has to land on the router first
+  const swapRecipient = nativeOut ? ADDRESS_THIS : recipient;
+
+  if (tradeType === "exactOut") {
+    if (nativeIn) {
+      commands.push(WRAP_ETH);
+      inputs.push(encodeWrapEth(ADDRESS_THIS, amountInMaximum));
+    }
+
+    commands.push(V3_SWAP_EXACT_OUT);
+    inputs.push(
+      encodeV3SwapExactOut({
+        recipient: swapRecipient,
+        amountOut,
+        amountInMaximum,
+        path: encodeV3PathReversed(tokens, fees),
+        payerIsUser,
+      })
+    );
+
+    if (nativeOut) {
+      commands.push(UNWRAP_WETH);
+      inputs.push(encodeUnwrapWeth(recipient, amountOut));
+    }
+    if (nativeIn) {
+      // Refund whatever part of the wrapped max input the swap didn't use
+      commands.push(UNWRAP_WETH);
+      inputs.push(encodeUnwrapWeth(MSG_SENDER, 0n));
+    }
+
+    return {
+      commands: joinCommands(commands),
+      inputs,
+      value: nativeIn ? amountInMaximum : 0n,
+    };
+  }
+
+  if (nativeIn) {
+    commands.push(WRAP_ETH);
+    inputs.push(encodeWrapEth(ADDRESS_THIS, amountIn));
+  }
+
+  const pullFirst = transferFirst && !nativeIn;
+  if (pullFirst) {
+    commands.push(PERMIT2_TRANSFER_FROM);
+    inputs.push(encodePermit2TransferFrom(tokens[0], ADDRESS_THIS, amountIn));
+  }
+
+  commands.push(V3_SWAP_EXACT_IN);
+  inputs.push(
+    encodeV3SwapExactIn({
+      recipient: swapRecipient,
+      amountIn: pullFirst ? CONTRACT_BALANCE : amountIn,
+      amountOutMinimum,
+      path: encodeV3Path(tokens, fees),
+      payerIsUser: pullFirst ? false : payerIsUser,
+    })
+  );
+
+  if (nativeOut) {
+    commands.push(UNWRAP_WETH);
+    inputs.push(encodeUnwrapWeth(recipient, amountOutMinimum));
+  }
+
+  return {
+    commands: joinCommands(commands),
+    inputs,
+    value: nativeIn ? amountIn : 0n,
+  };
+}
+
+export type SplitSwapLeg = {
+  // route in trade order, tokenIn first (wrapped addresses only)
+  tokens: Address[];
+  fees: number[];
+  amountIn: bigint;
+};
+
+/**
+ * Builds `execute` arguments for an exact-input trade split across several
+ * routes. Each leg swaps into the router with no minimum; the combined output
+ * is then checked once by SWEEP (or UNWRAP_WETH for native ETH out).
+ */
+export function buildSplitSwapExecuteArgs({
+  recipient,
+  legs,
+  amountOutMinimum,
+  nativeIn = false,
+  nativeOut = false,
+  permit,
+}: {
+  recipient: Address;
+  legs: SplitSwapLeg[];
+  amountOutMinimum: bigint;
+  nativeIn?: boolean;
+  nativeOut?: boolean;
+  permit?: { permit: PermitSingle; signature: Hex };
+}): { commands: Hex; inputs: Hex[]; value: bigint } {
+  if (!legs.length) throw new Error("No split legs");
+
+  const commands: Hex[] = [];
+  const inputs: Hex[] = [];
+  const totalIn = legs.reduce((acc, l) => acc + l.amountIn, 0n);
+  const tokenOut = legs[0].tokens[legs[0].tokens.length - 1];
+
+  if (permit) {
+    commands.push(PERMIT2_PERMIT);
+    inputs.push(encodePermit2Permit(permit.permit, permit.signature));
+  }
+
+  if (nativeIn) {
+    commands.push(WRAP_ETH);
+    inputs.push(encodeWrapEth(ADDRESS_THIS, totalIn));
+  }
+
+  for (const leg of legs) {
+    commands.push(V3_SWAP_EXACT_IN);
+    inputs.push(
+      encodeV3SwapExactIn({
+        recipient: ADDRESS_THIS,
+        amountIn: leg.amountIn,
+        amountOutMinimum: 0n,
+        path: encodeV3Path(leg.tokens, leg.fees),
+        payerIsUser: !nativeIn,
+      })
+    );
+  }
+
+  if (nativeOut) {
+    commands.push(UNWRAP_WETH);
+    inputs.push(encodeUnwrapWeth(recipient, amountOutMinimum));
+  } else {
+    commands.push(SWEEP);
+    inputs.push(encodeSweep(tokenOut, recipient, amountOutMinimum));
+  }
+
+  return {
+    commands: joinCommands(commands),
+    inputs,
+    value: nativeIn ? totalIn : 0n,
+  };
+}
@@ -0,0 +1,194 @@
+// src/lib/univ3/zap.ts
+import type { Address } from "viem";
+import {
+  MissingTickWordError,
+  simulateSwap,
+  type PoolSnapshot,
+} from "@/lib/math/swapSimulator";
+import { getSqrtRatioAtTick } from "@/lib/math/tickMath";
+import {
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+  getLiquidityForAmounts,
+} from "@/lib/math/liquidityAmounts";
+import { mintAmountsWithSlippage, type MintAmounts } from "./position";
+import { loadPoolSnapshot } from "./tickLens";
+
+// Extra tick-bitmap words the planning swap may pull in before giving up
+const MAX_EXTRA_WORDS = 8;
+
+export type ZapParams = {
+  // the single input token is token0 (swaps token0 -> token1) or token1
+  inputIs0: boolean;
+  amountIn: bigint;
+  tickLower: number;
+  tickUpper: number;
+  slippageBps: number;
+};
+
+export type ZapPlan = {
+  // input swapped through the pool, what it returns and the floor for it
+  swapAmount: bigint;
+  swapOut: bigint;
+  swapOutMin: bigint;
+  sqrtPriceX96Before: bigint;
+  sqrtPriceX96After: bigint;
+  // kept input + swap output, token0 / token1, as passed to mint
+  amount0Desired: bigint;
+  amount1Desired: bigint;
+  // the mint at the post-swap price
+  mint: MintAmounts;
+  // left in the wallet after the mint
+  dust0: bigint;
+  dust1: bigint;
+};
+
+type Split = {
+  swapped: bigint;
+  out: bigint;
+  sqrtPriceX96: bigint;
+  amount0: bigint;
+  amount1: bigint;
+};
+
+// Balances after swapping `s` of the input, priced by the pool's own curve
+function splitAt(snapshot: PoolSnapshot, p: ZapParams, s: bigint): Split {
+  let swapped = 0n;
+  let out = 0n;
+  let sqrtPriceX96 = snapshot.sqrtPriceX96;
+  if (s > 0n) {
+    const sim = simulateSwap(snapshot, p.inputIs0, s);
+    // less than `s` when the pool runs out of liquidity on the way
+    swapped = sim.amountIn;
+    out = sim.amountOut;
+    sqrtPriceX96 = sim.sqrtPriceX96After;
+  }
+  const kept = p.amountIn - swapped;
+  return {
+    swapped,
+    out,
+    sqrtPriceX96,
+    amount0: p.inputIs0 ? kept : out,
+    amount1: p.inputIs0 ? out : kept,
+  };
+}
+
+// Whether the kept input still buys more liquidity than the swap output,
+// i.e. more of it should be swapped
+function inputHeavy(
+  split: Split,
+  inputIs0: boolean,
+  sqrtLower: bigint,
+  sqrtUpper: bigint
+) {
+  const price = split.sqrtPriceX96;
+  // Outside the range the position holds one token only
+  if (price <= sqrtLower) return !inputIs0 && split.amount1 > 0n;
+  if (price >= sqrtUpper) return inputIs0 && split.amount0 > 0n;
+
+  const l0 = getLiquidityForAmount0(price, sqrtUpper, split.amount0);
+  const l1 = getLiquidityForAmount1(sqrtLower, price, split.amount1);
+  return inputIs0 ? l0 > l1 : l1 > l0;
+}
+
+/**
+ * Plans a single-sided deposit: how much of the input to swap through the
+ * same pool so the rest matches the range's ratio at the price the swap
+ * leaves behind. Swapping more moves the price and the required ratio, so the
+ * amount is bisected against the simulated swap rather than solved at spot.
+ * Throws MissingTickWordError when the swap runs past the loaded ticks.
+ */
+export function planZap(snapshot: PoolSnapshot, p: ZapParams): ZapPlan {
+  if (p.amountIn <= 0n) throw new Error("Enter a non-zero amount");
+  if (p.tickLower >= p.tickUpper) throw new Error("Invalid range");
+
+  const sqrtLower = getSqrtRatioAtTick(p.tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(p.tickUpper);
+  const heavy = (s: Split) => inputHeavy(s, p.inputIs0, sqrtLower, sqrtUpper);
+
+  let best = splitAt(snapshot, p, 0n);
+  if (heavy(best)) {
+    // From inside the range, swapping everything always overshoots; only a
+    // price outside it can call for the whole amount
+    const inRange =
+      snapshot.sqrtPriceX96 > sqrtLower && snapshot.sqrtPriceX96 < sqrtUpper;
+    const all = inRange ? null : splitAt(snapshot, p, p.amountIn);
+    if (all && heavy(all)) {
+      best = all;
+    } else {
+      // Largest swap that still leaves the input side heavy, then whichever
+      // of it and the next unit mints more
+      let lo = 0n;
+      let hi = p.amountIn;
+      let loSplit = best;
+      let hiSplit: Split | null = all;
+      while (hi - lo > 1n) {
+        const mid = (lo + hi) / 2n;
+        const s = splitAt(snapshot, p, mid);
+        if (heavy(s)) {
+          lo = mid;
+          loSplit = s;
+        } else {
+          hi = mid;
+          hiSplit = s;
+        }
+      }
+      const liq = (s: Split) =>
+        getLiquidityForAmounts(
+          s.sqrtPriceX96,
+          sqrtLower,
+          sqrtUpper,
+          s.amount0,
+          s.amount1
+        );
+      best = hiSplit && liq(hiSplit) > liq(loSplit) ? hiSplit : loSplit;
+    }
+  }
+
+  const mint = mintAmountsWithSlippage({
+    sqrtPriceX96: best.sqrtPriceX96,
+    tickLower: p.tickLower,
+    tickUpper: p.tickUpper,
+    amount0Desired: best.amount0,
+    amount1Desired: best.amount1,
+    slippageBps: p.slippageBps,
+  });
+  const bps = BigInt(Math.min(Math.max(Math.round(p.slippageBps), 0), 9_999));
+
+  return {
+    swapAmount: best.swapped,
+    swapOut: best.out,
+    swapOutMin: (best.out * (10_000n - bps)) / 10_000n,
+    sqrtPriceX96Before: snapshot.sqrtPriceX96,
+    sqrtPriceX96After: best.sqrtPriceX96,
+    amount0Desired: best.amount0,
+    amount1Desired: best.amount1,
+    mint,
+    dust0: best.amount0 - mint.amount0,
+    dust1: best.amount1 - mint.amount1,
+  };
+}
+
+/** planZap over `pool`'s live state, loading more tick words as needed. */
+export async function loadZapPlan(
+  client: any,
+  pool: Address,
+  fee: number,
+  params: ZapParams
+): Promise<ZapPlan> {
+  let includeWord: number | undefined;
+
+  for (let i = 0; i <= MAX_EXTRA_WORDS; i++) {
+    const snapshot = await loadPoolSnapshot(client, pool, fee, {
+      includeWord,
+    });
+    try {
+      return planZap(snapshot, params);
+    } catch (e) {
+      if (!(e instanceof MissingTickWordError)) throw e;
+      includeWord = e.word;
+    }
+  }
+
+  throw new Error("Swap crosses too many ticks to plan locally");
+}
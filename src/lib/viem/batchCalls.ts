@@ -0,0 +1,137 @@
+// src/lib/viem/batchCalls.ts
+import type { Abi, Address, Hex, Log } from 'viem'
+
+// EIP-5792 (wallet_sendCalls / wallet_getCallsStatus) helpers
+
+export type BatchCall = {
+  to: Address
+  data?: Hex
+  value?: bigint
+  abi?: Abi
+  functionName?: string
+  args?: readonly unknown[]
+}
+
+// As reported by wallet_getCallsStatus (no effectiveGasPrice; fetch the full
+// receipt by hash when that's needed)
+export type BatchReceipt = {
+  transactionHash: Hex
+  status: 'success' | 'reverted'
+  gasUsed: bigint
+  logs: Log[]
+}
+
+export type BatchResult = {
+  id: string
+  status: 'success' | 'failure'
+  receipts: BatchReceipt[]
+}
+
+const POLL_INTERVAL_MS = 1_500
+const WAIT_TIMEOUT_MS = 5 * 60_000
+
+// wallet uid + account + chain -> can send an atomic batch
+const capabilityCache = new Map<string, boolean>()
+
+function cacheKey(walletClient: any, account: Address, chainId: number) {
+  return `${walletClient?.uid ?? ''}:${account}:${chainId}`.toLowerCase()
+}
+
+/**
+ * Whether the connected wallet can execute several calls atomically on
+ * `chainId`. Accepts both the current `atomic` capability ("supported", or
+ * "ready" for an EOA the wallet can upgrade) and the older `atomicBatch` flag.
+ * Wallets without wallet_getCapabilities are reported as unsupported.
+ */
+export async function supportsAtomicBatch(
+  walletClient: any,
+  account: Address,
+  chainId: number,
+): Promise<boolean> {
+  const key = cacheKey(walletClient, account, chainId)
+  const cached = capabilityCache.get(key)
+  if (cached !== undefined) return cached
+
+  let ok = false
+  try {
+    const caps = await walletClient.getCapabilities({ account, chainId })
+    const status = caps?.atomic?.status
+    ok =
+      status === 'supported' ||
+      status === 'ready' ||
+      caps?.atomicBatch?.supported === true
+  } catch {
+    ok = false
+  }
+  capabilityCache.set(key, ok)
+  return ok
+}
+
+/** Remembers that batching failed for this wallet so later actions go sequential. */
+export function markBatchUnsupported(
+  walletClient: any,
+  account: Address,
+  chainId: number,
+) {
+  capabilityCache.set(cacheKey(walletClient, account, chainId), false)
+}
+
+/**
+ * True when `sendCalls` failed because the wallet can't batch (rather than
+ * because the user rejected or a call would revert), so the caller should
+ * retry the sequential flow.
+ */
+export function isBatchUnsupported(e: any): boolean {
+  // 4200 unsupported method, -32601 method not found, 5700 unsupported
+  // capability, 5710 unsupported chain, 5750 atomicity not supported
+  const codes = [4200, -32601, 5700, 5710, 5750]
+  for (let err = e; err; err = err.cause) {
+    if (codes.includes(err.code)) return true
+    if (err.name === 'AtomicityNotSupportedError') return true
+    if (err.name === 'MethodNotSupportedRpcError') return true
+  }
+  return false
+}
+
+/** Sends `calls` as one atomic wallet_sendCalls batch; returns the batch id. */
+export async function sendBatch(
+  walletClient: any,
+  account: Address,
+  calls: BatchCall[],
+): Promise<string> {
+  const { id } = await walletClient.sendCalls({
+    account,
+    chain: walletClient.chain,
+    calls,
+    forceAtomic: true,
+  })
+  return id as string
+}
+
+/**
+ * Polls wallet_getCallsStatus until the batch is no longer pending. An atomic
+ * batch may land as one transaction (smart account / EIP-7702) or as one per
+ * call, so the receipts are returned in order and the last one holds the
+ * final call's logs.
+ */
+export async function waitForBatch(
+  walletClient: any,
+  id: string,
+  { timeoutMs = WAIT_TIMEOUT_MS }: { timeoutMs?: number } = {},
+): Promise<BatchResult> {
+  const started = Date.now()
+  for (;;) {
+    const res = await walletClient.getCallsStatus({ id })
+    if (res.status === 'success' || res.status === 'failure') {
+      return {
+        id,
+        status: res.status,
+        receipts: (res.receipts ?? []) as BatchReceipt[],
+      }
+    }
+    if (Date.now() - started > timeoutMs) {
+      throw new Error('Timed out waiting for the batched transaction')
+    }
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS))
+  }
+}
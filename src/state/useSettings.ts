@@ -0,0 +1,102 @@
+'use client'
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+export type ApprovalAmount = 'infinite' | 'exact'
+export type Permit2Mode = 'signature' | 'onchain'
+
+// Canonical tokens from the Oku list that are hidden *only* in Swap selectors.
+// They stay loaded elsewhere (e.g. Pools page).
+export const DEFAULT_HIDDEN_TOKENS: string[] = [
+  '0x6b8f39d1bda75523f12ca527c4260ecc4889d547', // WBTC
+  '0x3026b071a730261b5c7735dcb83e787e1f55e414', // WETH
+  '0xd4348d0219cbf881a28fe1a17e0074388ca0baf6', // USDT
+  '0x6ae74e2cf82e830b27fea31f145e20df1860a2e5', // USDC
+  '0x63b75d4e00c9c518b0310b78ff6f83aa67e531cd', // WBTC.b
+  '0x0499af58073c78074a6ebb5943501d9cafe62570', // WETH.b
+  '0x4c9c2f5563f7b6d4f0cc99b6fa5d3d9d99c1e57b', // USDC.b
+  '0xf2b060feca9f9cb6f201f79fc12e4c5f5f6d50a5', // USDT.b
+]
+
+export const MAX_SLIPPAGE_BPS = 5000
+export const MAX_DEADLINE_MIN = 4320 // 3 days
+
+type SettingsValues = {
+  // starting slippage for swap / add liquidity forms
+  slippageBps: number
+  // swaps start in auto slippage (see recommendSlippage); slippageBps is the fallback
+  slippageAuto: boolean
+  // minutes until a submitted tx is rejected by the contract
+  deadlineMin: number
+  // ERC-20 approvals (and Permit2 amounts) for the max amount or only this tx
+  approvalAmount: ApprovalAmount
+  permit2Mode: Permit2Mode
+  // skips the typed confirmation on high price-impact swaps
+  expertMode: boolean
+  // fee tier pre-selected on Add / Limit
+  defaultFeeTier: number
+  // when on, picking a fee tier makes it the new default
+  rememberFeeTier: boolean
+  // lowercased addresses left out of the swap token selector
+  hiddenTokens: string[]
+}
+
+type SettingsState = SettingsValues & {
+  set: (patch: Partial<SettingsValues>) => void
+  hideToken: (address: string) => void
+  unhideToken: (address: string) => void
+  reset: () => void
+}
+
+// Deployment env only seeds the defaults; the user's choices take over after that
+export const DEFAULT_SETTINGS: SettingsValues = {
+  slippageBps: Number(process.env.NEXT_PUBLIC_DEFAULT_SLIPPAGE_BPS ?? 50),
+  slippageAuto: true,
+  deadlineMin: Number(process.env.NEXT_PUBLIC_TX_DEADLINE_MIN ?? 20),
+  approvalAmount: 'infinite',
+  permit2Mode: process.env.NEXT_PUBLIC_PERMIT2_MODE === 'onchain' ? 'onchain' : 'signature',
+  expertMode: false,
+  defaultFeeTier: 3000,
+  rememberFeeTier: false,
+  hiddenTokens: DEFAULT_HIDDEN_TOKENS,
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, Math.floor(n))) : min
+}
+
+export const useSettings = create<SettingsState>()(
+  persist(
+    (set, get) => ({
+      ...DEFAULT_SETTINGS,
+      set: (patch) => {
+        const next = { ...patch }
+        if (next.slippageBps !== undefined) next.slippageBps = clamp(next.slippageBps, 0, MAX_SLIPPAGE_BPS)
+        if (next.deadlineMin !== undefined) next.deadlineMin = clamp(next.deadlineMin, 1, MAX_DEADLINE_MIN)
+        set(next)
+      },
+      hideToken: (address) => {
+        const key = address.toLowerCase()
+        if (get().hiddenTokens.includes(key)) return
+        set({ hiddenTokens: [...get().hiddenTokens, key] })
+      },
+      unhideToken: (address) => {
+        const key = address.toLowerCase()
+        set({ hiddenTokens: get().hiddenTokens.filter(a => a !== key) })
+      },
+      reset: () => set(DEFAULT_SETTINGS),
+    }),
+    {
+      name: 'settings',
+      version: 1,
+      partialize: ({ set: _set, hideToken: _h, unhideToken: _u, reset: _r, ...values }) => values,
+    }
+  )
+)
+
+/**
+ * Unix deadline for a tx submitted now, from the user's deadline setting.
+ */
+export function txDeadline(deadlineMin: number) {
+  return BigInt(Math.floor(Date.now() / 1000) + deadlineMin * 60)
+}
@@ -0,0 +1,153 @@
+'use client'
+import { create } from 'zustand'
+import type { TokenList } from '@/lib/tokens'
+import {
+  BUNDLED_LIST_ID,
+  LIST_REFRESH_MS,
+  ListSubscription,
+  compareVersions,
+  fetchTokenList,
+  loadSubscriptions,
+  parseTokenListJson,
+  saveSubscriptions,
+} from '@/lib/tokenLists'
+import { useTokens } from './useTokens'
+
+type TokenListsState = {
+  subscriptions: ListSubscription[]
+  loaded: boolean
+  init: () => void
+  addUrl: (url: string) => Promise<void>
+  addJson: (text: string) => void
+  remove: (id: string) => void
+  toggle: (id: string) => void
+  move: (id: string, delta: -1 | 1) => void
+  refresh: (id: string) => Promise<void>
+  acceptUpdate: (id: string) => void
+  dismissUpdate: (id: string) => void
+}
+
+// Pushes enabled lists (in precedence order) into the token store
+function publish(subs: ListSubscription[]) {
+  const lists = subs.filter(s => s.enabled && s.list).map(s => s.list as TokenList)
+  useTokens.getState().setLists(lists)
+}
+
+export const useTokenLists = create<TokenListsState>((set, get) => {
+  const commit = (subscriptions: ListSubscription[]) => {
+    saveSubscriptions(subscriptions)
+    set({ subscriptions })
+    publish(subscriptions)
+  }
+  const update = (id: string, patch: Partial<ListSubscription>) => {
+    commit(get().subscriptions.map(s => (s.id === id ? { ...s, ...patch } : s)))
+  }
+
+  return {
+    subscriptions: [],
+    loaded: false,
+
+    init: () => {
+      if (get().loaded) return
+      const subscriptions = loadSubscriptions()
+      set({ subscriptions, loaded: true })
+      publish(subscriptions)
+      for (const s of subscriptions) {
+        if (s.source.type === 'url' && Date.now() - s.fetchedAt > LIST_REFRESH_MS) {
+          get()
+            .refresh(s.id)
+            .catch(e => console.warn('[tokenLists] refresh failed', s.id, e))
+        }
+      }
+    },
+
+    addUrl: async (url) => {
+      const trimmed = url.trim()
+      if (get().subscriptions.some(s => s.source.type === 'url' && s.source.url === trimmed)) {
+        throw new Error('Already subscribed to this list')
+      }
+      const list = await fetchTokenList(trimmed)
+      commit([
+        ...get().subscriptions,
+        {
+          id: `url:${trimmed}`,
+          source: { type: 'url', url: trimmed },
+          enabled: true,
+          list,
+          pending: null,
+          error: null,
+          fetchedAt: Date.now(),
+        },
+      ])
+    },
+
+    addJson: (text) => {
+      const result = parseTokenListJson(text)
+      if (!result.ok) throw new Error(result.errors.join('\n'))
+      const list = result.list
+      const id = `json:${list.name}`
+      const existing = get().subscriptions.find(s => s.id === id)
+      // re-pasting a list with the same name is treated like a remote update
+      if (existing?.list) {
+        if (compareVersions(list.version, existing.list.version) <= 0) {
+          throw new Error('This list is already added at the same or a newer version')
+        }
+        update(id, { pending: list, error: null })
+        return
+      }
+      commit([
+        ...get().subscriptions,
+        { id, source: { type: 'json' }, enabled: true, list, pending: null, error: null, fetchedAt: Date.now() },
+      ])
+    },
+
+    remove: (id) => {
+      if (id === BUNDLED_LIST_ID) return
+      commit(get().subscriptions.filter(s => s.id !== id))
+    },
+
+    toggle: (id) => {
+      const sub = get().subscriptions.find(s => s.id === id)
+      if (sub) update(id, { enabled: !sub.enabled })
+    },
+
+    move: (id, delta) => {
+      const subs = [...get().subscriptions]
+      const i = subs.findIndex(s => s.id === id)
+      const j = i + delta
+      if (i < 0 || j < 0 || j >= subs.length) return
+      ;[subs[i], subs[j]] = [subs[j], subs[i]]
+      commit(subs)
+    },
+
+    /**
+     * Re-fetches a remote list. A higher version is held as `pending` until the
+     * user reviews its diff; the same or a lower version is ignored.
+     */
+    refresh: async (id) => {
+      const sub = get().subscriptions.find(s => s.id === id)
+      if (!sub || sub.source.type !== 'url') return
+      try {
+        const list = await fetchTokenList(sub.source.url)
+        const current = get().subscriptions.find(s => s.id === id)
+        if (!current) return
+        if (!current.list) {
+          update(id, { list, error: null, fetchedAt: Date.now() })
+        } else if (compareVersions(list.version, current.list.version) > 0) {
+          update(id, { pending: list, error: null, fetchedAt: Date.now() })
+        } else {
+          update(id, { error: null, fetchedAt: Date.now() })
+        }
+      } catch (e: any) {
+        update(id, { error: e?.message ?? String(e) })
+      }
+    },
+
+    acceptUpdate: (id) => {
+      const sub = get().subscriptions.find(s => s.id === id)
+      if (sub?.pending) update(id, { list: sub.pending, pending: null })
+    },
+
+    dismissUpdate: (id) => update(id, { pending: null }),
+  }
+})
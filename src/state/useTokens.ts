@@ -1,20 +1,85 @@
 'use client'
 import { create } from 'zustand'
-import { tokensForChain, Token } from '@/lib/tokens'
+import {
+  tokensForChain,
+  nativeToken,
+  loadImportedTokens,
+  saveImportedTokens,
+  Token,
+  TokenList,
+} from '@/lib/tokens'
+import { mergeTokenLists, type SymbolClash, type TokenConflict } from '@/lib/tokenLists'
 
 type TokenState = {
+  chainId: number | null
+  // enabled token lists in precedence order; null until useTokenLists loads
+  lists: TokenList[] | null
+  // merged list entries followed by user-imported tokens
   tokens: Token[]
   byAddr: Map<string, Token>
+  // native ETH pseudo-token; not part of `tokens`, opt-in per selector
+  native: Token | null
+  conflicts: TokenConflict[]
+  symbolClashes: SymbolClash[]
   setChain: (chainId: number) => void
+  setLists: (lists: TokenList[]) => void
+  importToken: (token: Token) => void
+  removeImportedToken: (address: string) => void
 }
 
-export const useTokens = create<TokenState>((set) => ({
+function indexTokens(chainId: number, lists: TokenList[] | null, imported: Token[]) {
+  const merged = lists ? mergeTokenLists(lists, chainId) : null
+  const listed: Token[] = merged ? merged.tokens : tokensForChain(chainId)
+  const native = nativeToken(chainId)
+  const by = new Map<string, Token>()
+  listed.forEach(t => by.set(t.address.toLowerCase(), t))
+  // list entries win over an import of the same address
+  const extra = imported.filter(t => !by.has(t.address.toLowerCase()))
+  extra.forEach(t => by.set(t.address.toLowerCase(), t))
+  by.set(native.address.toLowerCase(), native)
+  return {
+    tokens: [...listed, ...extra],
+    byAddr: by,
+    native,
+    conflicts: merged?.conflicts ?? [],
+    symbolClashes: merged?.symbolClashes ?? [],
+  }
+}
+
+export const useTokens = create<TokenState>((set, get) => ({
+  chainId: null,
+  lists: null,
   tokens: [],
   byAddr: new Map(),
+  native: null,
+  conflicts: [],
+  symbolClashes: [],
   setChain: (chainId) => {
-    const toks = tokensForChain(chainId)
-    const by = new Map<string, Token>()
-    toks.forEach(t => by.set(t.address.toLowerCase(), t))
-    set({ tokens: toks, byAddr: by })
+    set({ chainId, ...indexTokens(chainId, get().lists, loadImportedTokens(chainId)) })
+  },
+  setLists: (lists) => {
+    const { chainId } = get()
+    if (chainId === null) {
+      set({ lists })
+      return
+    }
+    set({ lists, ...indexTokens(chainId, lists, loadImportedTokens(chainId)) })
+  },
+  importToken: (token) => {
+    const { chainId, lists } = get()
+    if (chainId === null || token.chainId !== chainId) return
+    const key = token.address.toLowerCase()
+    const imported = loadImportedTokens(chainId).filter(t => t.address.toLowerCase() !== key)
+    imported.push({ ...token, imported: true })
+    saveImportedTokens(chainId, imported)
+    set(indexTokens(chainId, lists, imported))
+  },
+  removeImportedToken: (address) => {
+    const { chainId, lists } = get()
+    if (chainId === null) return
+    const key = address.toLowerCase()
+    const imported = loadImportedTokens(chainId).filter(t => t.address.toLowerCase() !== key)
+    saveImportedTokens(chainId, imported)
+    set(indexTokens(chainId, lists, imported))
   },
-}))
\ No newline at end of file
+}))